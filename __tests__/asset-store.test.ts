@@ -0,0 +1,64 @@
+import { describe, expect, it, mock } from "bun:test";
+import { AssetStore } from "../src/asset-store";
+
+describe("AssetStore", () => {
+	const createStore = (contents: Record<string, string>) => {
+		const writeAsset = mock(async (_path: string, _content: Buffer) => {});
+		const download = mock(async (url: string) => ({
+			content: Buffer.from(contents[url]),
+			contentType: "image/png",
+		}));
+		const store = new AssetStore(writeAsset, "assets", download);
+		return { store, writeAsset, download };
+	};
+
+	it("should store assets under a content-hash filename", async () => {
+		const { store, writeAsset } = createStore({
+			"https://files.notion.so/secure/diagram.PNG?X-Amz-Expires=3600": "png",
+		});
+
+		const assetPath = await store.store(
+			"https://files.notion.so/secure/diagram.PNG?X-Amz-Expires=3600",
+		);
+
+		expect(assetPath).toMatch(/^assets\/[0-9a-f]{16}\.png$/);
+		expect(writeAsset).toHaveBeenCalledWith(assetPath, Buffer.from("png"));
+	});
+
+	it("should fall back to the content type for the extension", async () => {
+		const { store } = createStore({
+			"https://files.notion.so/secure/blob": "png",
+		});
+
+		const assetPath = await store.store("https://files.notion.so/secure/blob");
+		expect(assetPath).toEndWith(".png");
+	});
+
+	it("should deduplicate identical content from different URLs", async () => {
+		const { store, writeAsset } = createStore({
+			"https://files.notion.so/a/image.png?sig=1": "same",
+			"https://files.notion.so/b/image.png?sig=2": "same",
+		});
+
+		const first = await store.store(
+			"https://files.notion.so/a/image.png?sig=1",
+		);
+		const second = await store.store(
+			"https://files.notion.so/b/image.png?sig=2",
+		);
+
+		expect(second).toBe(first);
+		expect(writeAsset).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not download the same URL twice", async () => {
+		const { store, download } = createStore({
+			"https://files.notion.so/a/image.png": "content",
+		});
+
+		await store.store("https://files.notion.so/a/image.png");
+		await store.store("https://files.notion.so/a/image.png");
+
+		expect(download).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import {
+	ConfigFileError,
+	loadConfigFile,
+	parseConfigFile,
+} from "../src/config-file";
+
+const problemsOf = (content: string, file = "notion-sync.yml") => {
+	try {
+		parseConfigFile(content, file);
+	} catch (error) {
+		if (error instanceof ConfigFileError) {
+			return error.problems;
+		}
+		throw error;
+	}
+	throw new Error("Expected the config file to be rejected");
+};
+
+describe("parseConfigFile", () => {
+	it("should read the roots and their settings from YAML", () => {
+		const roots = parseConfigFile(
+			[
+				"roots:",
+				"  - name: Engineering",
+				"    page-id: aaaa",
+				"    wiki-path-prefix: Engineering",
+				"    max-depth: 3",
+				"    exclude: [bbbb]",
+				"  - page-id: cccc",
+				"    target: repo",
+				"    docs-directory: ./docs/specs/",
+				"    output-format: mdx",
+				"    database-properties: [Status, Owner]",
+				"    include:",
+				"      - property: Publish to wiki",
+				"        equals: true",
+			].join("\n"),
+			"notion-sync.yml",
+		);
+
+		expect(roots).toEqual([
+			{
+				pageId: "aaaa",
+				name: "Engineering",
+				options: {
+					wikiPathPrefix: "Engineering",
+					maxDepth: 3,
+					exclude: [{ pageId: "bbbb" }],
+				},
+			},
+			{
+				pageId: "cccc",
+				name: "cccc",
+				options: {
+					target: "repo",
+					docsDirectory: "docs/specs",
+					outputFormat: "mdx",
+					databaseProperties: ["Status", "Owner"],
+					include: [{ property: "Publish to wiki", equals: true }],
+				},
+			},
+		]);
+	});
+
+	it("should read JSON files as JSON", () => {
+		const roots = parseConfigFile(
+			JSON.stringify({
+				roots: [{ "page-id": "aaaa", "pull-request-base": "main" }],
+			}),
+			"notion-sync.json",
+		);
+
+		expect(roots).toEqual([
+			{ pageId: "aaaa", name: "aaaa", options: { pullRequestBase: "main" } },
+		]);
+	});
+
+	it("should report every problem with where it is", () => {
+		const problems = problemsOf(
+			[
+				"version: 2",
+				"roots:",
+				"  - name: Engineering",
+				"  - page-id: aaaa",
+				"    max-depth: zero",
+				"    target: pages",
+				"    docs-directory: ../outside",
+				"    max_depth: 3",
+				"  - page-id: AAAA",
+				"    output-format: pdf",
+				"    exclude: bbbb",
+				"  - just a page",
+			].join("\n"),
+		);
+
+		expect(problems).toEqual([
+			'unknown key "version", expected: roots',
+			"roots[0].page-id is required",
+			"roots[1].max-depth must be a positive integer",
+			"roots[1].target must be one of: wiki, repo",
+			"roots[1].docs-directory must be a directory within the repository",
+			'roots[1]: unknown key "max_depth", expected one of: page-id, name, wiki-path-prefix, max-depth, target, docs-directory, pull-request-branch, pull-request-base, output-format, page-naming, database-properties, include, exclude',
+			"roots[2].page-id AAAA is already listed as roots[1]",
+			"roots[2].output-format must be one of: gfm, mdx, html",
+			"roots[2].exclude must be a list of rules",
+			"roots[3] must be a mapping",
+		]);
+	});
+
+	it("should name the file in the error message", () => {
+		expect(() => parseConfigFile("roots: []", "notion-sync.yml")).toThrow(
+			"Invalid config file notion-sync.yml:\n  - roots must be a non-empty list",
+		);
+	});
+
+	it("should reject files that don't parse", () => {
+		expect(problemsOf("roots: [", "notion-sync.yml")[0]).toStartWith(
+			"is not valid YAML:",
+		);
+		expect(problemsOf("{ roots: [] }", "notion-sync.json")[0]).toStartWith(
+			"is not valid JSON:",
+		);
+		expect(problemsOf("- page-id: aaaa")).toEqual([
+			'must be a mapping with a "roots" list',
+		]);
+	});
+});
+
+describe("loadConfigFile", () => {
+	let workspace: string;
+
+	beforeEach(async () => {
+		workspace = await mkdtemp(path.join(tmpdir(), "config-file-"));
+	});
+
+	afterEach(async () => {
+		await rm(workspace, { recursive: true, force: true });
+	});
+
+	it("should read the file relative to the workspace", async () => {
+		await writeFile(
+			path.join(workspace, "notion-sync.yml"),
+			"roots:\n  - page-id: aaaa\n",
+		);
+
+		const roots = await loadConfigFile("notion-sync.yml", workspace);
+
+		expect(roots).toEqual([{ pageId: "aaaa", name: "aaaa", options: {} }]);
+	});
+
+	it("should report a missing file", async () => {
+		await expect(loadConfigFile("missing.yml", workspace)).rejects.toThrow(
+			"Invalid config file missing.yml:\n  - could not be read:",
+		);
+	});
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { buildJobSummary, createPageUrlBuilder } from "../src/job-summary";
+import type { PageResult, SyncResult } from "../src/notion-sync";
+
+const WIKI_URL = (pageName: string) =>
+	`https://github.com/owner/repo/wiki/${pageName}`;
+
+const createResult = (
+	pages: PageResult[],
+	overrides: Partial<SyncResult> = {},
+): SyncResult => ({
+	pagesSynced: pages.filter((page) => page.status !== "failed").length,
+	pagesCreated: pages.filter((page) => page.status === "created").length,
+	pagesUpdated: pages.filter((page) => page.status === "updated").length,
+	pagesSkipped: pages.filter((page) => page.status === "skipped").length,
+	pagesFailed: pages.filter((page) => page.status === "failed").length,
+	pagesPruned: 0,
+	cycles: [],
+	pages,
+	apiCalls: 12,
+	durationMs: 4200,
+	status: "success",
+	...overrides,
+});
+
+describe("buildJobSummary", () => {
+	it("should total the pages by outcome", () => {
+		const summary = buildJobSummary(
+			createResult([
+				{
+					pageId: "a",
+					title: "A",
+					wikiPageName: "a",
+					status: "created",
+					durationMs: 10,
+				},
+				{
+					pageId: "b",
+					title: "B",
+					wikiPageName: "b",
+					status: "skipped",
+					durationMs: 10,
+				},
+			]),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("## ✅ Notion sync succeeded");
+		expect(summary).toContain("| 1 | 0 | 1 | 0 | 0 |");
+		expect(summary).toContain("12 Notion API call(s) in 4.2s");
+	});
+
+	it("should link each page to the wiki and to Notion", () => {
+		const summary = buildJobSummary(
+			createResult([
+				{
+					pageId: "a",
+					title: "Getting Started",
+					wikiPageName: "Getting-Started",
+					notionUrl: "https://www.notion.so/Getting-Started-a",
+					status: "updated",
+					durationMs: 1500,
+				},
+			]),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain(
+			"| Getting Started | ✏️ Updated | [Getting-Started](https://github.com/owner/repo/wiki/Getting-Started) | [Open](https://www.notion.so/Getting-Started-a) | 1.5s |",
+		);
+	});
+
+	it("should show why a page failed without a wiki link", () => {
+		const summary = buildJobSummary(
+			createResult(
+				[
+					{
+						pageId: "a",
+						title: "Broken | Page",
+						wikiPageName: "Broken-Page",
+						status: "failed",
+						error: "Could not find block",
+						durationMs: 5,
+					},
+				],
+				{ status: "error" },
+			),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("## ❌ Notion sync failed");
+		expect(summary).toContain(
+			"| Broken \\| Page | ❌ Failed: Could not find block | — | — | 5ms |",
+		);
+	});
+
+	it("should list unsupported block types per page", () => {
+		const summary = buildJobSummary(
+			createResult([
+				{
+					pageId: "a",
+					title: "Roadmap",
+					wikiPageName: "Roadmap",
+					status: "created",
+					durationMs: 10,
+					unsupportedBlockTypes: ["synced_block", "link_preview"],
+				},
+				{
+					pageId: "b",
+					title: "Plain",
+					wikiPageName: "Plain",
+					status: "created",
+					durationMs: 10,
+				},
+			]),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("### Unsupported blocks");
+		expect(summary).toContain("- Roadmap: `synced_block`, `link_preview`");
+		expect(summary).not.toContain("- Plain:");
+	});
+
+	it("should point out dry runs", () => {
+		const summary = buildJobSummary(
+			createResult([], { dryRun: true }),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("nothing was pushed to the wiki");
+	});
+
+	it("should link the pull request of the repo target", () => {
+		const summary = buildJobSummary(
+			createResult([], {
+				pullRequestUrl: "https://github.com/owner/repo/pull/7",
+			}),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain(
+			"Changes are in pull request https://github.com/owner/repo/pull/7",
+		);
+	});
+
+	it("should list excluded pages with the rule that left them out", () => {
+		const summary = buildJobSummary(
+			createResult([], {
+				excludedPages: [
+					{
+						pageId: "a",
+						title: "WIP: Roadmap",
+						reason: "excluded by title WIP*",
+						notionUrl: "https://www.notion.so/a",
+					},
+					{ pageId: "b", title: "", reason: "excluded by page ID b" },
+				],
+			}),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("### Excluded pages");
+		expect(summary).toContain(
+			"- [WIP: Roadmap](https://www.notion.so/a): excluded by title WIP*",
+		);
+		expect(summary).toContain("- b: excluded by page ID b");
+	});
+
+	it("should list wiki edits with the reason for conflicts", () => {
+		const summary = buildJobSummary(
+			createResult([], {
+				wikiEdits: [
+					{ pageId: "a", title: "A", wikiPageName: "a", status: "pushed" },
+					{
+						pageId: "b",
+						title: "B",
+						wikiPageName: "b",
+						status: "conflict",
+						reason: "the page was also edited in Notion since the last sync",
+					},
+				],
+			}),
+			WIKI_URL,
+		);
+
+		expect(summary).toContain("### Wiki edits");
+		expect(summary).toContain(
+			"- [A](https://github.com/owner/repo/wiki/a): ✅ Written to Notion",
+		);
+		expect(summary).toContain(
+			"- [B](https://github.com/owner/repo/wiki/b): ⚠️ Conflict: the page was also edited in Notion since the last sync",
+		);
+	});
+
+	it("should leave out the unsupported blocks section when there are none", () => {
+		const summary = buildJobSummary(createResult([]), WIKI_URL);
+
+		expect(summary).not.toContain("### Unsupported blocks");
+		expect(summary).not.toContain("### Pages");
+	});
+});
+
+describe("createPageUrlBuilder", () => {
+	const originalRepository = process.env.GITHUB_REPOSITORY;
+
+	beforeEach(() => {
+		process.env.GITHUB_REPOSITORY = "owner/repo";
+	});
+
+	afterEach(() => {
+		process.env.GITHUB_REPOSITORY = originalRepository;
+	});
+
+	it("should link wiki pages by name", () => {
+		const pageUrl = createPageUrlBuilder("wiki", "notion-sync", "docs");
+
+		expect(pageUrl("notion-guide")).toBe(
+			"https://github.com/owner/repo/wiki/notion-guide",
+		);
+	});
+
+	it("should link repo pages to their file on the sync branch", () => {
+		const pageUrl = createPageUrlBuilder("repo", "notion-sync", "docs");
+
+		expect(pageUrl("notion-guide")).toBe(
+			"https://github.com/owner/repo/blob/notion-sync/docs/notion-guide.md",
+		);
+	});
+});
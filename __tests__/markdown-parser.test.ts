@@ -0,0 +1,181 @@
+import { describe, expect, it } from "bun:test";
+import {
+	blockKey,
+	parseInline,
+	parseMarkdown,
+	toBlockRequest,
+} from "../src/markdown-parser";
+
+describe("parseMarkdown", () => {
+	it("should parse the blocks the GFM renderer writes", () => {
+		const blocks = parseMarkdown(
+			[
+				"# Guide",
+				"",
+				"Intro",
+				"",
+				"- one",
+				"  - nested",
+				"1. first",
+				"- [x] done",
+				"",
+				"> Quoted",
+				"",
+				"```js",
+				"const a = 1;",
+				"```",
+				"",
+				"$$",
+				"E = mc^2",
+				"$$",
+				"",
+				"---",
+			].join("\n"),
+		);
+
+		expect(blocks.map((block) => block.type)).toEqual([
+			"heading_1",
+			"paragraph",
+			"bulleted_list_item",
+			"numbered_list_item",
+			"to_do",
+			"quote",
+			"code",
+			"equation",
+			"divider",
+		]);
+		expect(blocks[2].children.map((child) => child.text)).toEqual([
+			[{ content: "nested" }],
+		]);
+		expect(blocks[4].checked).toBe(true);
+		expect(blocks[6]).toMatchObject({
+			language: "javascript",
+			text: [{ content: "const a = 1;" }],
+		});
+		expect(blocks[7].text).toEqual([{ content: "E = mc^2" }]);
+	});
+
+	it("should mark Markdown without a Notion block as unsupported", () => {
+		const blocks = parseMarkdown(
+			"| a | b |\n| --- | --- |\n\n![logo](assets/logo.png)\n\n<details>\n<summary>More</summary>\n\nHidden\n\n</details>",
+		);
+
+		expect(blocks.map((block) => [block.type, block.source])).toEqual([
+			["unsupported", "| a | b |\n| --- | --- |"],
+			["unsupported", "![logo](assets/logo.png)"],
+			[
+				"unsupported",
+				"<details>\n<summary>More</summary>\n\nHidden\n\n</details>",
+			],
+		]);
+	});
+
+	it("should give the same block the same key wherever it is parsed", () => {
+		const [alone] = parseMarkdown("- item\n  - child");
+		const [, inPage] = parseMarkdown("Intro\n\n- item\n  - child\n- next");
+
+		expect(blockKey(alone)).toBe(blockKey(inPage));
+		expect(blockKey(alone)).not.toBe(blockKey(parseMarkdown("- item")[0]));
+	});
+});
+
+describe("parseInline", () => {
+	it("should parse annotations and links", () => {
+		expect(
+			parseInline(
+				"**Bold** *it* ***both*** ~~gone~~ `code` [site](https://a.io)",
+			),
+		).toEqual([
+			{ bold: true, content: "Bold" },
+			{ content: " " },
+			{ italic: true, content: "it" },
+			{ content: " " },
+			{ italic: true, bold: true, content: "both" },
+			{ content: " " },
+			{ strikethrough: true, content: "gone" },
+			{ content: " " },
+			{ code: true, content: "code" },
+			{ content: " " },
+			{ link: "https://a.io", content: "site" },
+		]);
+	});
+
+	it("should keep escapes, code and intraword underscores literal", () => {
+		expect(parseInline("\\*not\\* snake_case `**raw**`")).toEqual([
+			{ content: "*not* snake_case " },
+			{ code: true, content: "**raw**" },
+		]);
+	});
+
+	it("should resolve page links and drop links Notion can't store", () => {
+		const runs = parseInline(
+			"[Guide](notion-guide) [[notion-faq]] [top](#top)",
+			{
+				resolveLink: (url) =>
+					url.startsWith("notion-")
+						? `https://www.notion.so/${url}`
+						: undefined,
+			},
+		);
+
+		expect(runs).toEqual([
+			{ link: "https://www.notion.so/notion-guide", content: "Guide" },
+			{ content: " " },
+			{ link: "https://www.notion.so/notion-faq", content: "notion-faq" },
+			{ content: " top" },
+		]);
+	});
+});
+
+describe("toBlockRequest", () => {
+	it("should build the Notion block with its rich text", () => {
+		const [todo] = parseMarkdown("- [ ] **Ship** it");
+
+		expect(toBlockRequest(todo)).toEqual({
+			type: "to_do",
+			to_do: {
+				checked: false,
+				rich_text: [
+					{
+						type: "text",
+						text: { content: "Ship", link: null },
+						annotations: {
+							bold: true,
+							italic: false,
+							strikethrough: false,
+							underline: false,
+							code: false,
+							color: "default",
+						},
+					},
+					{
+						type: "text",
+						text: { content: " it", link: null },
+						annotations: {
+							bold: false,
+							italic: false,
+							strikethrough: false,
+							underline: false,
+							code: false,
+							color: "default",
+						},
+					},
+				],
+			},
+		});
+	});
+
+	it("should fall back to plain text for languages Notion doesn't know", () => {
+		const [code] = parseMarkdown("```brainfuck\n+++\n```");
+
+		expect(toBlockRequest(code)).toMatchObject({
+			code: { language: "plain text" },
+		});
+	});
+
+	it("should refuse unsupported Markdown", () => {
+		const [table] = parseMarkdown("| a |\n| --- |");
+
+		expect(() => toBlockRequest(table)).toThrow("| a |");
+	});
+});
@@ -1,21 +1,42 @@
 import { beforeEach, describe, expect, it, mock } from "bun:test";
-import type {
-	BlockObjectResponse,
-	PageObjectResponse,
-	RichTextItemResponse,
+import {
+	APIErrorCode,
+	APIResponseError,
+	type BlockObjectResponse,
+	type DatabaseObjectResponse,
+	type PageObjectResponse,
+	type RichTextItemResponse,
 } from "@notionhq/client";
-import { NotionSync } from "../src/notion-sync";
+import {
+	type DatabaseQueryFilter,
+	mergeSyncResults,
+	type NotionBlock,
+	NotionSync,
+	type SyncResult,
+} from "../src/notion-sync";
+import { PageFilter } from "../src/page-filter";
+import { RequestScheduler } from "../src/request-scheduler";
+import { hashContent, SyncManifest } from "../src/sync-manifest";
+import { PushRejectedError } from "../src/wiki-repository";
 
 // Mock @actions/core
 const mockCore = {
 	info: mock(),
 	error: mock(),
 	warning: mock(),
+	startGroup: mock(),
+	endGroup: mock(),
 };
 
 // Mock the core module
 mock.module("@actions/core", () => mockCore);
 
+const pageMetadata = (title: string) => ({
+	title,
+	notionId: "0123456789abcdef0123456789abcdef",
+	lastEditedTime: "2024-01-01T00:00:00.000Z",
+});
+
 describe("NotionSync", () => {
 	let notionSync: NotionSync;
 
@@ -49,6 +70,18 @@ describe("NotionSync", () => {
 			});
 			expect(minimalSync).toBeDefined();
 		});
+
+		it("should not count pull request calls as Notion API calls", () => {
+			const repoSync = new NotionSync({
+				notionApiToken: "test-token",
+				githubToken: "test-github-token",
+				target: "repo",
+			});
+
+			expect(repoSync["pullRequests"]?.["scheduler"]).not.toBe(
+				repoSync["scheduler"],
+			);
+		});
 	});
 
 	describe("syncFromWebhook", () => {
@@ -67,6 +100,1202 @@ describe("NotionSync", () => {
 		});
 	});
 
+	describe("incremental sync", () => {
+		const page = {
+			object: "page",
+			id: "01234567-89ab-cdef-0123-456789abcdef",
+			parent: { type: "page_id", page_id: "root-page" },
+			last_edited_time: "2024-01-02T00:00:00.000Z",
+			properties: {},
+		} as unknown as PageObjectResponse;
+		const blocks = [
+			{
+				type: "paragraph",
+				paragraph: { rich_text: [{ plain_text: "Hello" }] },
+			},
+		] as unknown as NotionBlock[];
+		let writeFile: ReturnType<typeof mock>;
+
+		beforeEach(() => {
+			writeFile = mock(async () => {});
+			notionSync["wiki"] = {
+				fileExists: mock(async () => true),
+				writeFile,
+			} as unknown as NotionSync["wiki"];
+		});
+
+		it("should create pages missing from the manifest", async () => {
+			const outcome = await notionSync["syncPageToWiki"]({
+				page,
+				blocks,
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				childPageIds: [],
+			});
+
+			expect(outcome).toBe("created");
+			expect(writeFile).toHaveBeenCalledWith(
+				"notion-guide.md",
+				"# Guide\n\nHello",
+			);
+			expect(
+				notionSync["manifest"].get("0123456789abcdef0123456789abcdef")
+					?.lastEditedTime,
+			).toBe("2024-01-02T00:00:00.000Z");
+		});
+
+		it("should skip writing when the rendered content is unchanged", async () => {
+			notionSync["manifest"].set({
+				pageId: "0123456789abcdef0123456789abcdef",
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: hashContent("# Guide\n\nHello"),
+				childPageIds: [],
+			});
+
+			const outcome = await notionSync["syncPageToWiki"]({
+				page,
+				blocks,
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				childPageIds: [],
+			});
+
+			expect(outcome).toBe("skipped");
+			expect(writeFile).not.toHaveBeenCalled();
+		});
+
+		it("should update pages whose rendered content changed", async () => {
+			notionSync["manifest"].set({
+				pageId: "0123456789abcdef0123456789abcdef",
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: hashContent("# Guide\n\nOld"),
+				childPageIds: [],
+			});
+
+			const outcome = await notionSync["syncPageToWiki"]({
+				page,
+				blocks,
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				childPageIds: [],
+			});
+
+			expect(outcome).toBe("updated");
+			expect(writeFile).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not fetch blocks for pages unchanged since the last sync", async () => {
+			notionSync["manifest"].set({
+				pageId: "0123456789abcdef0123456789abcdef",
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				lastEditedTime: "2024-01-02T00:00:00.000Z",
+				contentHash: hashContent("# Guide\n\nHello"),
+				childPageIds: [],
+			});
+			const list = mock();
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						...page,
+						properties: {
+							title: { type: "title", title: [{ plain_text: "Guide" }] },
+						},
+					})),
+				},
+				blocks: { children: { list } },
+			} as unknown as NotionSync["notion"];
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"](page.id, 0, pages);
+
+			expect(list).not.toHaveBeenCalled();
+			expect(pages).toHaveLength(1);
+			expect(pages[0].blocks).toBeUndefined();
+			expect(await notionSync["syncPageToWiki"](pages[0])).toBe("skipped");
+		});
+
+		it("should fetch blocks of unchanged pages in a dry run", async () => {
+			notionSync["config"].dryRun = true;
+			notionSync["manifest"].set({
+				pageId: "0123456789abcdef0123456789abcdef",
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				lastEditedTime: "2024-01-02T00:00:00.000Z",
+				contentHash: hashContent("# Guide\n\nOld"),
+				childPageIds: [],
+			});
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						...page,
+						properties: {
+							title: { type: "title", title: [{ plain_text: "Guide" }] },
+						},
+					})),
+				},
+				blocks: {
+					children: {
+						list: mock(async () => ({ results: blocks, has_more: false })),
+					},
+				},
+			} as unknown as NotionSync["notion"];
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"](page.id, 0, pages);
+
+			const [fetchedPage] = await notionSync["nameFetchedPages"](pages);
+
+			expect(fetchedPage.blocks).toHaveLength(1);
+			expect(await notionSync["syncPageToWiki"](fetchedPage)).toBe("updated");
+			expect(writeFile).toHaveBeenCalledWith(
+				"notion-guide.md",
+				"# Guide\n\nHello",
+			);
+		});
+
+		it("should follow the mentions of pages unchanged since the last sync", async () => {
+			notionSync["config"].followMentions = true;
+			await notionSync["syncPageToWiki"]({
+				page: { ...page, last_edited_time: "2024-01-01T00:00:00.000Z" },
+				blocks,
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				childPageIds: [],
+				mentionedPageIds: ["aaaaaaaa-0000-0000-0000-000000000000"],
+			});
+			expect(
+				notionSync["manifest"].get("0123456789abcdef0123456789abcdef")
+					?.mentionedPageIds,
+			).toEqual(["aaaaaaaa000000000000000000000000"]);
+
+			const retrieve = mock(async ({ page_id }: { page_id: string }) => ({
+				...page,
+				id: page_id,
+				last_edited_time: "2024-01-01T00:00:00.000Z",
+				properties: {},
+			}));
+			notionSync["notion"] = {
+				pages: { retrieve },
+				blocks: {
+					children: {
+						list: mock(async () => ({ results: [], has_more: false })),
+					},
+				},
+			} as unknown as NotionSync["notion"];
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"](page.id, 0, pages);
+
+			expect(pages).toHaveLength(2);
+			expect(pages[0].blocks).toBeUndefined();
+			expect(retrieve).toHaveBeenCalledWith({
+				page_id: "aaaaaaaa000000000000000000000000",
+			});
+		});
+	});
+
+	describe("pruneOrphanedPages", () => {
+		const orphan = {
+			pageId: "orphan",
+			title: "Old Page",
+			wikiPageName: "notion-old-page",
+			lastEditedTime: "2024-01-01T00:00:00.000Z",
+			contentHash: "hash",
+			childPageIds: [],
+		};
+		let wiki: Record<string, ReturnType<typeof mock>>;
+
+		beforeEach(() => {
+			wiki = {
+				readFile: mock(async () => "# Old Page"),
+				writeFile: mock(async () => {}),
+				deleteFile: mock(async () => {}),
+			};
+			notionSync["wiki"] = wiki as unknown as NotionSync["wiki"];
+			notionSync["manifest"].set(orphan);
+		});
+
+		it("should leave orphaned pages alone by default", async () => {
+			const pruned = await notionSync["pruneOrphanedPages"](["orphan"]);
+
+			expect(pruned).toBe(0);
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+			expect(notionSync["manifest"].get("orphan")).toBeDefined();
+		});
+
+		it("should delete orphaned pages in delete mode", async () => {
+			notionSync["config"].prune = "delete";
+
+			const pruned = await notionSync["pruneOrphanedPages"](["orphan"]);
+
+			expect(pruned).toBe(1);
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-old-page.md");
+			expect(wiki.writeFile).not.toHaveBeenCalled();
+			expect(notionSync["manifest"].get("orphan")).toBeUndefined();
+		});
+
+		it("should rename orphaned pages with the Archived- prefix in archive mode", async () => {
+			notionSync["config"].prune = "archive";
+
+			const pruned = await notionSync["pruneOrphanedPages"](["orphan"]);
+
+			expect(pruned).toBe(1);
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-old-page.md");
+			const [archivePath, archivedContent] = wiki.writeFile.mock.calls[0];
+			expect(archivePath).toBe("Archived-notion-old-page.md");
+			expect(archivedContent).toStartWith("> **Archived:**");
+			expect(archivedContent).toEndWith("# Old Page");
+			expect(notionSync["manifest"].getArchivedPages()).toEqual([
+				expect.objectContaining({
+					wikiPageName: "Archived-notion-old-page",
+					title: "Old Page",
+				}),
+			]);
+		});
+
+		it("should not prune when pages failed to load", async () => {
+			notionSync["config"].prune = "delete";
+			notionSync["failedFetches"] = 1;
+
+			const pruned = await notionSync["pruneOrphanedPages"](["orphan"]);
+
+			expect(pruned).toBe(0);
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("syncBatch", () => {
+		const manifest = new SyncManifest();
+		manifest.set({
+			pageId: "deletedpage",
+			title: "Deleted",
+			wikiPageName: "notion-deleted",
+			lastEditedTime: "2024-01-01T00:00:00.000Z",
+			contentHash: "hash",
+			childPageIds: ["childpage"],
+		});
+		manifest.set({
+			pageId: "childpage",
+			title: "Child",
+			wikiPageName: "notion-child",
+			lastEditedTime: "2024-01-01T00:00:00.000Z",
+			contentHash: "hash",
+			childPageIds: [],
+		});
+		const emptyResult = {
+			pagesSynced: 0,
+			pagesCreated: 0,
+			pagesUpdated: 0,
+			pagesSkipped: 0,
+			pagesPruned: 0,
+			cycles: [],
+			status: "success" as const,
+		};
+		let wiki: Record<string, ReturnType<typeof mock>>;
+
+		beforeEach(() => {
+			wiki = {
+				clone: mock(async () => {}),
+				readFile: mock(async (path: string) =>
+					path === ".notion-sync/manifest.json" ? manifest.serialize() : null,
+				),
+				writeFile: mock(async () => {}),
+				deleteFile: mock(async () => {}),
+				getChanges: mock(async () => []),
+				commitAndPush: mock(async () => false),
+			};
+			notionSync["wiki"] = wiki as unknown as NotionSync["wiki"];
+		});
+
+		it("should delete the page and its subtree even when pruning is off", async () => {
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => {
+						throw new APIResponseError({
+							code: APIErrorCode.ObjectNotFound,
+							status: 404,
+							message: "Could not find page",
+							headers: {},
+							rawBodyText: "",
+						});
+					}),
+				},
+			} as unknown as NotionSync["notion"];
+
+			const result = await notionSync.syncBatch([
+				{ type: "delete-page", pageId: "deleted-page" },
+			]);
+
+			expect(result.status).toBe("success");
+			expect(result.pagesPruned).toBe(2);
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-deleted.md");
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-child.md");
+			expect(wiki.commitAndPush).toHaveBeenCalled();
+		});
+
+		it("should sync deleted pages that still exist in Notion instead", async () => {
+			const syncSubtrees = mock(async () => emptyResult);
+			notionSync["syncSubtrees"] = syncSubtrees;
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						object: "page",
+						id: "deleted-page",
+						archived: false,
+						in_trash: false,
+						properties: {},
+					})),
+				},
+			} as unknown as NotionSync["notion"];
+
+			await notionSync.syncBatch([
+				{ type: "delete-page", pageId: "deleted-page" },
+			]);
+
+			expect(syncSubtrees).toHaveBeenCalledWith(["deletedpage"]);
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+		});
+
+		it("should link mentions of pages synced in an earlier run", async () => {
+			wiki.fileExists = mock(async () => true);
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						object: "page",
+						id: "childpage",
+						parent: { type: "page_id", page_id: "deletedpage" },
+						last_edited_time: "2024-01-02T00:00:00.000Z",
+						archived: false,
+						in_trash: false,
+						properties: {
+							title: { type: "title", title: [{ plain_text: "Child" }] },
+						},
+					})),
+				},
+				blocks: {
+					children: {
+						list: mock(async () => ({
+							results: [
+								{
+									type: "paragraph",
+									paragraph: {
+										rich_text: [
+											{
+												type: "mention",
+												mention: { type: "page", page: { id: "deletedpage" } },
+												plain_text: "Deleted",
+												href: "https://www.notion.so/deletedpage",
+											},
+										],
+									},
+								},
+							],
+							has_more: false,
+						})),
+					},
+				},
+			} as unknown as NotionSync["notion"];
+
+			await notionSync.syncBatch([{ type: "sync-page", pageId: "childpage" }]);
+
+			expect(wiki.writeFile).toHaveBeenCalledWith(
+				"notion-child.md",
+				"# Child\n\n[Deleted](notion-deleted)",
+			);
+		});
+
+		it("should only count synced pages in the commit message", () => {
+			notionSync["manifest"].setRedirect({
+				from: "notion-old-guide",
+				to: "notion-guide",
+				createdAt: "2024-01-01T00:00:00.000Z",
+			});
+
+			expect(
+				notionSync["buildCommitMessage"]([
+					{ status: "modified", path: "notion-guide.md" },
+					{ status: "added", path: "notion-old-guide.md" },
+					{ status: "modified", path: "_Sidebar.md" },
+					{ status: "modified", path: "_Footer.md" },
+					{ status: "modified", path: ".notion-sync/manifest.json" },
+				]),
+			).toBe("Sync 1 page(s) from Notion\n\n- modified: notion-guide");
+			expect(
+				notionSync["buildCommitMessage"]([
+					{ status: "modified", path: "_Sidebar.md" },
+					{ status: "modified", path: ".notion-sync/manifest.json" },
+				]),
+			).toBe("Update the Notion sync manifest");
+		});
+
+		it("should log the diff and push nothing in a dry run", async () => {
+			notionSync["config"].dryRun = true;
+			notionSync["syncSubtrees"] = mock(async () => emptyResult);
+			wiki.getChanges = mock(async () => [
+				{ status: "modified", path: "notion-guide.md" },
+				{ status: "modified", path: ".notion-sync/manifest.json" },
+			]);
+			wiki.getDiff = mock(async () => "-old\n+new\n");
+
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId: "child-page" },
+			]);
+
+			expect(result.dryRun).toBe(true);
+			expect(wiki.getDiff).toHaveBeenCalledTimes(1);
+			expect(wiki.getDiff).toHaveBeenCalledWith("notion-guide.md");
+			expect(wiki.commitAndPush).not.toHaveBeenCalled();
+			expect(wiki.writeFile).not.toHaveBeenCalledWith(
+				"_Footer.md",
+				expect.anything(),
+			);
+		});
+
+		it("should sync each subtree once in a single commit", async () => {
+			const syncSubtrees = mock(async () => emptyResult);
+			notionSync["syncSubtrees"] = syncSubtrees;
+
+			await notionSync.syncBatch([
+				{ type: "sync-page", pageId: "child-page" },
+				{ type: "sync-page", pageId: "deleted-page" },
+				{ type: "sync-page", pageId: "deleted-page" },
+			]);
+
+			expect(syncSubtrees).toHaveBeenCalledTimes(1);
+			expect(syncSubtrees).toHaveBeenCalledWith(["deletedpage"]);
+			expect(wiki.commitAndPush).toHaveBeenCalledTimes(1);
+		});
+
+		it("should sync new pages as part of their synced ancestor", async () => {
+			const syncSubtrees = mock(async () => emptyResult);
+			notionSync["syncSubtrees"] = syncSubtrees;
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						object: "page",
+						id: "new-page",
+						parent: { type: "page_id", page_id: "child-page" },
+						properties: {},
+					})),
+				},
+			} as unknown as NotionSync["notion"];
+
+			await notionSync.syncBatch([{ type: "sync-page", pageId: "new-page" }]);
+
+			expect(syncSubtrees).toHaveBeenCalledWith(["childpage"]);
+		});
+
+		it("should sync pages moved within the synced tree", async () => {
+			const syncSubtrees = mock(async () => emptyResult);
+			notionSync["syncSubtrees"] = syncSubtrees;
+
+			await notionSync.syncBatch([
+				{ type: "move-page", pageId: "child-page", parentId: "deleted-page" },
+			]);
+
+			expect(syncSubtrees).toHaveBeenCalledWith(["childpage"]);
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+		});
+
+		it("should prune pages moved out of the synced tree", async () => {
+			notionSync["config"].prune = "delete";
+			const syncSubtrees = mock(async () => emptyResult);
+			notionSync["syncSubtrees"] = syncSubtrees;
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						object: "page",
+						id: "elsewhere",
+						parent: { type: "workspace", workspace: true },
+						properties: {},
+					})),
+				},
+			} as unknown as NotionSync["notion"];
+
+			const result = await notionSync.syncBatch([
+				{ type: "move-page", pageId: "child-page", parentId: "elsewhere" },
+			]);
+
+			expect(result.pagesPruned).toBe(1);
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-child.md");
+			expect(syncSubtrees).toHaveBeenCalledWith([]);
+		});
+
+		it("should stop tracking pages moved out of the tree when pruning is off", async () => {
+			notionSync["syncSubtrees"] = mock(async () => emptyResult);
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => ({
+						object: "page",
+						id: "child-page",
+						parent: { type: "workspace", workspace: true },
+						properties: {},
+					})),
+				},
+			} as unknown as NotionSync["notion"];
+
+			const result = await notionSync.syncBatch([
+				{ type: "move-page", pageId: "child-page" },
+			]);
+
+			expect(result.pagesPruned).toBe(0);
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+			expect(notionSync["manifest"].get("childpage")).toBeUndefined();
+			expect(notionSync["manifest"].get("deletedpage")?.childPageIds).toEqual(
+				[],
+			);
+		});
+
+		it("should redo the batch on a fresh clone when the push is rejected", async () => {
+			notionSync["syncSubtrees"] = mock(async () => emptyResult);
+			wiki.commitAndPush
+				.mockImplementationOnce(async () => {
+					throw new PushRejectedError("rejected");
+				})
+				.mockImplementationOnce(async () => true);
+
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId: "deleted-page" },
+			]);
+
+			expect(result.status).toBe("success");
+			expect(wiki.clone).toHaveBeenCalledTimes(2);
+			expect(wiki.commitAndPush).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("two-way sync", () => {
+		const pageId = "0123456789abcdef0123456789abcdef";
+		const synced = "# Guide\n\nHello\n\nBye";
+		const page = {
+			object: "page",
+			id: "01234567-89ab-cdef-0123-456789abcdef",
+			parent: { type: "page_id", page_id: "root-page" },
+			last_edited_time: "2024-01-01T00:00:00.000Z",
+			archived: false,
+			in_trash: false,
+			properties: {},
+		};
+		const paragraph = (id: string, text: string) => ({
+			id,
+			type: "paragraph",
+			has_children: false,
+			paragraph: { rich_text: [{ plain_text: text }] },
+		});
+		let wikiContent: string;
+		let notion: {
+			pages: Record<string, ReturnType<typeof mock>>;
+			blocks: Record<string, unknown> & {
+				children: Record<string, ReturnType<typeof mock>>;
+			};
+		};
+
+		beforeEach(() => {
+			const manifest = new SyncManifest();
+			manifest.set({
+				pageId,
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: hashContent(synced),
+				childPageIds: [],
+			});
+			wikiContent = "# Guide\n\nHello, world\n\nBye";
+
+			notionSync["config"].twoWaySync = true;
+			notionSync["syncSubtrees"] = mock(async () => ({
+				pagesSynced: 0,
+				pagesCreated: 0,
+				pagesUpdated: 0,
+				pagesSkipped: 0,
+				pagesFailed: 0,
+				pagesPruned: 0,
+				cycles: [],
+				pages: [],
+				apiCalls: 0,
+				durationMs: 0,
+				status: "success" as const,
+			}));
+			notionSync["wiki"] = {
+				clone: mock(async () => {}),
+				readFile: mock(async (path: string) =>
+					path === ".notion-sync/manifest.json"
+						? manifest.serialize()
+						: path === "notion-guide.md"
+							? wikiContent
+							: null,
+				),
+				writeFile: mock(async () => {}),
+				getChanges: mock(async () => []),
+				commitAndPush: mock(async () => false),
+			} as unknown as NotionSync["wiki"];
+			notion = {
+				pages: {
+					retrieve: mock(async () => page),
+				},
+				blocks: {
+					update: mock(async () => ({})),
+					delete: mock(async () => ({})),
+					children: {
+						list: mock(async () => ({
+							results: [
+								paragraph("block-1", "Hello"),
+								paragraph("block-2", "Bye"),
+							],
+							has_more: false,
+						})),
+						append: mock(async () => ({ results: [] })),
+					},
+				},
+			};
+			notionSync["notion"] = notion as unknown as NotionSync["notion"];
+		});
+
+		it("should write the changed blocks of an edited wiki page to Notion", async () => {
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId },
+			]);
+
+			expect(result.wikiEdits).toEqual([
+				{
+					pageId,
+					title: "Guide",
+					wikiPageName: "notion-guide",
+					status: "pushed",
+				},
+			]);
+			expect(notion.blocks.update).toHaveBeenCalledTimes(1);
+			expect(notion.blocks.update).toHaveBeenCalledWith(
+				expect.objectContaining({
+					block_id: "block-1",
+					paragraph: {
+						rich_text: [
+							expect.objectContaining({
+								text: { content: "Hello, world", link: null },
+							}),
+						],
+					},
+				}),
+			);
+			expect(notion.blocks.delete).not.toHaveBeenCalled();
+			expect(notionSync["manifest"].get(pageId)?.contentHash).toBe(
+				hashContent(wikiContent),
+			);
+		});
+
+		it("should hold the edit back when the Notion page changed too", async () => {
+			notion.pages.retrieve = mock(async () => ({
+				...page,
+				last_edited_time: "2024-01-05T00:00:00.000Z",
+			}));
+
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId },
+			]);
+
+			expect(result.wikiEdits?.[0]).toMatchObject({
+				status: "conflict",
+				reason: "the page was also edited in Notion since the last sync",
+			});
+			expect(notion.blocks.children.list).not.toHaveBeenCalled();
+			expect(notion.blocks.update).not.toHaveBeenCalled();
+
+			// The forward sync leaves the wiki edit alone
+			const outcome = await notionSync["syncPageToWiki"]({
+				page: {
+					...page,
+					last_edited_time: "2024-01-05T00:00:00.000Z",
+				} as unknown as PageObjectResponse,
+				blocks: [
+					paragraph("block-1", "Hello again"),
+				] as unknown as NotionBlock[],
+				title: "Guide",
+				wikiPageName: "notion-guide",
+				childPageIds: [],
+			});
+			expect(outcome).toBe("conflict");
+			expect(notionSync["wiki"].writeFile).not.toHaveBeenCalledWith(
+				"notion-guide.md",
+				expect.anything(),
+			);
+		});
+
+		for (const [kind, text] of [
+			["formatting", { plain_text: "Hello", annotations: { underline: true } }],
+			[
+				"mentions",
+				{
+					type: "mention",
+					plain_text: "Hello",
+					mention: { type: "user", user: { id: "user-1", name: "Ada" } },
+				},
+			],
+		] as const) {
+			it(`should not write over ${kind} the wiki page can't hold`, async () => {
+				const block = paragraph("block-1", "Hello");
+				block.paragraph.rich_text = [text] as typeof block.paragraph.rich_text;
+				notion.blocks.children.list = mock(async () => ({
+					results: [block, paragraph("block-2", "Bye")],
+					has_more: false,
+				}));
+
+				const result = await notionSync.syncBatch([
+					{ type: "sync-page", pageId },
+				]);
+
+				expect(result.wikiEdits?.[0].status).toBe("conflict");
+				expect(notion.blocks.update).not.toHaveBeenCalled();
+				expect(notion.blocks.delete).not.toHaveBeenCalled();
+			});
+		}
+
+		it("should only log the Notion changes in a dry run", async () => {
+			notionSync["config"].dryRun = true;
+
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId },
+			]);
+
+			expect(result.wikiEdits?.[0].status).toBe("planned");
+			expect(notion.blocks.update).not.toHaveBeenCalled();
+			expect(mockCore.info).toHaveBeenCalledWith(
+				"Dry run: would update Notion page Guide: 1 block(s) updated, 0 removed, 0 added",
+			);
+		});
+
+		it("should leave pages the sync wrote untouched", async () => {
+			wikiContent = synced;
+
+			const result = await notionSync.syncBatch([
+				{ type: "sync-page", pageId },
+			]);
+
+			expect(result.wikiEdits).toEqual([]);
+			expect(notion.pages.retrieve).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("renamed pages", () => {
+		const page = {
+			object: "page",
+			id: "01234567-89ab-cdef-0123-456789abcdef",
+			parent: { type: "page_id", page_id: "root-page" },
+			last_edited_time: "2024-01-02T00:00:00.000Z",
+			properties: {},
+		} as unknown as PageObjectResponse;
+		let wiki: Record<string, ReturnType<typeof mock>>;
+
+		beforeEach(() => {
+			wiki = {
+				fileExists: mock(async () => true),
+				writeFile: mock(async () => {}),
+				deleteFile: mock(async () => {}),
+			};
+			notionSync["wiki"] = wiki as unknown as NotionSync["wiki"];
+			notionSync["manifest"].set({
+				pageId: "0123456789abcdef0123456789abcdef",
+				title: "Old Title",
+				wikiPageName: "notion-old-title",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: "hash",
+				childPageIds: [],
+			});
+		});
+
+		const syncRenamedPage = () =>
+			notionSync["syncPageToWiki"]({
+				page,
+				blocks: [],
+				title: "New Title",
+				wikiPageName: "notion-new-title",
+				childPageIds: [],
+			});
+
+		it("should move the page and leave a redirect stub at the old name", async () => {
+			const outcome = await syncRenamedPage();
+
+			expect(outcome).toBe("updated");
+			expect(wiki.writeFile).toHaveBeenCalledWith(
+				"notion-new-title.md",
+				"# New Title",
+			);
+			expect(wiki.writeFile).toHaveBeenCalledWith(
+				"notion-old-title.md",
+				"This page moved to [[notion-new-title]].\n",
+			);
+			expect(notionSync["manifest"].getRedirects()).toEqual([
+				{
+					from: "notion-old-title",
+					to: "notion-new-title",
+					createdAt: expect.any(String),
+				},
+			]);
+		});
+
+		it("should delete the old page when redirects are disabled", async () => {
+			notionSync["config"].redirectRetentionDays = 0;
+
+			await syncRenamedPage();
+
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-old-title.md");
+			expect(notionSync["manifest"].getRedirects()).toEqual([]);
+		});
+
+		it("should point earlier redirects at the newest name", async () => {
+			notionSync["manifest"].setRedirect({
+				from: "notion-original-title",
+				to: "notion-old-title",
+				createdAt: "2024-01-01T00:00:00.000Z",
+			});
+
+			await syncRenamedPage();
+
+			expect(wiki.writeFile).toHaveBeenCalledWith(
+				"notion-original-title.md",
+				"This page moved to [[notion-new-title]].\n",
+			);
+		});
+
+		it("should remove redirects older than the retention period", async () => {
+			notionSync["manifest"].setRedirect({
+				from: "notion-expired",
+				to: "notion-new-title",
+				createdAt: "2024-01-01T00:00:00.000Z",
+			});
+			notionSync["manifest"].setRedirect({
+				from: "notion-recent",
+				to: "notion-new-title",
+				createdAt: "2024-01-25T00:00:00.000Z",
+			});
+
+			await notionSync["expireRedirects"](new Date("2024-02-01T00:00:00Z"));
+
+			expect(wiki.deleteFile).toHaveBeenCalledWith("notion-expired.md");
+			expect(wiki.deleteFile).toHaveBeenCalledTimes(1);
+			expect(
+				notionSync["manifest"].getRedirects().map((redirect) => redirect.from),
+			).toEqual(["notion-recent"]);
+		});
+
+		it("should keep expired redirects that pages still link to", async () => {
+			notionSync["manifest"].set({
+				pageId: "linking",
+				title: "Linking",
+				wikiPageName: "notion-linking",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: "hash",
+				childPageIds: [],
+				linkedPageNames: ["notion-expired"],
+			});
+			notionSync["manifest"].setRedirect({
+				from: "notion-expired",
+				to: "notion-new-title",
+				createdAt: "2024-01-01T00:00:00.000Z",
+			});
+
+			await notionSync["expireRedirects"](new Date("2024-02-01T00:00:00Z"));
+
+			expect(wiki.deleteFile).not.toHaveBeenCalled();
+		});
+
+		it("should render unchanged pages again when a page they link to is renamed", async () => {
+			notionSync["manifest"].set({
+				pageId: "linking",
+				title: "Linking",
+				wikiPageName: "notion-linking",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: "hash",
+				childPageIds: [],
+				linkedPageNames: ["notion-old-title"],
+			});
+			const list = mock(async () => ({ results: [], has_more: false }));
+			notionSync["notion"] = {
+				blocks: { children: { list } },
+			} as unknown as NotionSync["notion"];
+			const linking = {
+				page: { ...page, id: "linking" },
+				title: "Linking",
+				wikiPageName: "",
+				childPageIds: [],
+			};
+
+			await notionSync["nameFetchedPages"]([
+				{ ...linking },
+				{ page, title: "Old Title", wikiPageName: "", childPageIds: [] },
+			]);
+			expect(list).not.toHaveBeenCalled();
+
+			const pages = [
+				{ ...linking },
+				{ page, title: "New Title", wikiPageName: "", childPageIds: [] },
+			];
+			await notionSync["nameFetchedPages"](pages);
+			expect(pages[0].wikiPageName).toBe("notion-linking");
+			expect(list).toHaveBeenCalledWith(
+				expect.objectContaining({ block_id: "linking" }),
+			);
+		});
+
+		it("should leave out pages whose blocks fail to load", async () => {
+			notionSync["manifest"].set({
+				pageId: "linking",
+				title: "Linking",
+				wikiPageName: "notion-linking",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: "hash",
+				childPageIds: [],
+				linkedPageNames: ["notion-old-title"],
+			});
+			notionSync["notion"] = {
+				blocks: {
+					children: {
+						list: mock(async () => {
+							throw new Error("Service unavailable");
+						}),
+					},
+				},
+			} as unknown as NotionSync["notion"];
+			const renamed = {
+				page,
+				blocks: [],
+				title: "New Title",
+				wikiPageName: "",
+				childPageIds: [],
+			};
+
+			const namedPages = await notionSync["nameFetchedPages"]([
+				{
+					page: { ...page, id: "linking" },
+					title: "Linking",
+					wikiPageName: "",
+					childPageIds: [],
+				},
+				renamed,
+			]);
+
+			expect(namedPages).toEqual([renamed]);
+			expect(notionSync["failedFetches"]).toBe(1);
+			expect(notionSync["pageResults"]).toEqual([
+				expect.objectContaining({
+					pageId: "linking",
+					wikiPageName: "notion-linking",
+					status: "failed",
+					error: "Service unavailable",
+				}),
+			]);
+		});
+
+		it("should record the pages a page links to", async () => {
+			notionSync["wikiPageNames"].set(
+				"fedcba9876543210fedcba9876543210",
+				"notion-linked",
+			);
+
+			await notionSync["syncPageToWiki"]({
+				page,
+				blocks: [
+					{
+						type: "paragraph",
+						paragraph: {
+							rich_text: [
+								{
+									plain_text: "See",
+									href: "https://www.notion.so/fedcba9876543210fedcba9876543210",
+								},
+							],
+						},
+					},
+				] as unknown as NotionBlock[],
+				title: "Old Title",
+				wikiPageName: "notion-old-title",
+				childPageIds: [],
+			});
+
+			expect(
+				notionSync["manifest"].get("0123456789abcdef0123456789abcdef")
+					?.linkedPageNames,
+			).toEqual(["notion-linked"]);
+		});
+	});
+
+	describe("databases", () => {
+		const database = {
+			object: "database",
+			id: "database-1",
+			title: [{ plain_text: "ADRs" }],
+			description: [],
+			properties: {
+				Name: { type: "title" },
+				Status: { type: "status" },
+				Owner: { type: "people" },
+			},
+		} as unknown as DatabaseObjectResponse;
+		const row = {
+			object: "page",
+			id: "0123456789abcdef0123456789abcdef",
+			parent: { type: "database_id", database_id: "database-1" },
+			properties: {
+				Name: { type: "title", title: [{ plain_text: "Use Bun" }] },
+				Status: { type: "status", status: { name: "Accepted" } },
+				Owner: {
+					type: "people",
+					people: [{ object: "user", id: "user-1", name: "Ada" }],
+				},
+			},
+		} as unknown as PageObjectResponse;
+
+		it("should render an index table linking to each row page", () => {
+			notionSync["wikiPageNames"].set(
+				"0123456789abcdef0123456789abcdef",
+				"notion-use-bun",
+			);
+
+			const markdown = notionSync["convertDatabaseToMarkdown"](
+				database,
+				[row],
+				pageMetadata("ADRs"),
+			);
+			expect(markdown).toBe(
+				"# ADRs\n\n| Name | Status | Owner |\n| --- | --- | --- |\n| [Use Bun](notion-use-bun) | Accepted | @Ada |",
+			);
+		});
+
+		it("should only show the selected properties on the index", () => {
+			notionSync["config"].databaseProperties = ["Status"];
+
+			const markdown = notionSync["convertDatabaseToMarkdown"](
+				database,
+				[row],
+				pageMetadata("ADRs"),
+			);
+			expect(markdown).toBe(
+				"# ADRs\n\n| Name | Status |\n| --- | --- |\n| Use Bun | Accepted |",
+			);
+		});
+
+		it("should render row properties as a header table", () => {
+			const markdown = notionSync["convertPropertiesToMarkdown"](row);
+			expect(markdown).toBe(
+				"| Property | Value |\n| --- | --- |\n| Status | Accepted |\n| Owner | @Ada |",
+			);
+		});
+
+		it("should query every page of rows with the configured filter", async () => {
+			const filter = { property: "Status", status: { equals: "Accepted" } };
+			notionSync["config"].databaseFilter = filter as DatabaseQueryFilter;
+			const query = mock(async (args: { start_cursor?: string }) =>
+				args.start_cursor
+					? {
+							results: [{ ...row, id: "row-2" }],
+							has_more: false,
+							next_cursor: null,
+						}
+					: { results: [row], has_more: true, next_cursor: "cursor-2" },
+			);
+			notionSync["notion"] = {
+				databases: { query },
+			} as unknown as NotionSync["notion"];
+
+			const rows = await notionSync["queryDatabaseRows"]("database-1");
+
+			expect(rows.map((result) => result.id)).toEqual([
+				"0123456789abcdef0123456789abcdef",
+				"row-2",
+			]);
+			expect(query).toHaveBeenCalledTimes(2);
+			expect(query.mock.calls[0][0]).toMatchObject({
+				database_id: "database-1",
+				filter,
+			});
+		});
+
+		it("should fall back to retrieving a database for database IDs", async () => {
+			const retrieveDatabase = mock(async () => database);
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => {
+						throw new APIResponseError({
+							code: APIErrorCode.ValidationError,
+							status: 400,
+							message: "database-1 is a database, not a page",
+							headers: {},
+							rawBodyText: "",
+						});
+					}),
+				},
+				databases: { retrieve: retrieveDatabase },
+			} as unknown as NotionSync["notion"];
+
+			const result = await notionSync["retrievePageOrDatabase"]("database-1");
+
+			expect(result).toBe(database);
+			expect(retrieveDatabase).toHaveBeenCalledWith({
+				database_id: "database-1",
+			});
+		});
+
+		it("should follow child database blocks", () => {
+			const blocks = [
+				{ type: "child_database", id: "database-1" },
+			] as BlockObjectResponse[];
+
+			expect(notionSync["extractChildPageIds"](blocks)).toEqual(["database-1"]);
+		});
+	});
+
+	describe("findAllowedRoot", () => {
+		const pages: Record<string, unknown> = {
+			"child-page": {
+				object: "page",
+				id: "child-page",
+				parent: { type: "block_id", block_id: "column-block" },
+				properties: {},
+			},
+			"allowed-root": {
+				object: "page",
+				id: "allowed-root",
+				parent: { type: "workspace", workspace: true },
+				properties: {},
+			},
+		};
+
+		beforeEach(() => {
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async ({ page_id }: { page_id: string }) => {
+						return pages[page_id];
+					}),
+				},
+				blocks: {
+					retrieve: mock(async () => ({
+						object: "block",
+						id: "column-block",
+						parent: { type: "page_id", page_id: "allowed-root" },
+					})),
+				},
+			} as unknown as NotionSync["notion"];
+		});
+
+		it("should find an allowed root through block parents", async () => {
+			const root = await notionSync.findAllowedRoot("child-page", [
+				"allowed-root",
+			]);
+			expect(root).toBe("allowedroot");
+		});
+
+		it("should return null for pages outside the allowed roots", async () => {
+			const root = await notionSync.findAllowedRoot("child-page", [
+				"other-root",
+			]);
+			expect(root).toBeNull();
+		});
+	});
+
 	describe("extractPageTitle", () => {
 		it("should extract title from page properties", () => {
 			const page = {
@@ -98,6 +1327,24 @@ describe("NotionSync", () => {
 			expect(title).toBe("Untitled");
 		});
 
+		it("should join titles made of several parts", () => {
+			const page = {
+				properties: {
+					title: {
+						type: "title",
+						title: [
+							{ plain_text: "Release " },
+							{ plain_text: "v2", annotations: { code: true } },
+							{ plain_text: " notes" },
+						],
+					},
+				},
+			} as unknown as PageObjectResponse;
+
+			const title = notionSync["extractPageTitle"](page);
+			expect(title).toBe("Release v2 notes");
+		});
+
 		it("should handle empty title array", () => {
 			const page = {
 				properties: {
@@ -113,139 +1360,651 @@ describe("NotionSync", () => {
 		});
 	});
 
-	describe("generateWikiPageName", () => {
-		it("should sanitize title and add prefix", () => {
-			const title = "My Test Page!@#$";
+	describe("convertRichTextToMarkdown", () => {
+		it("should convert plain text", () => {
+			const richText = [
+				{ plain_text: "Hello world" },
+			] as RichTextItemResponse[];
 
-			const pageName = notionSync["generateWikiPageName"](title);
-			expect(pageName).toBe("notion-my-test-page");
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("Hello world");
 		});
 
-		it("should handle titles with spaces", () => {
-			const title = "Multiple   Spaces   Here";
+		it("should convert bold text", () => {
+			const richText = [
+				{
+					plain_text: "Bold text",
+					annotations: { bold: true },
+				},
+			] as RichTextItemResponse[];
 
-			const pageName = notionSync["generateWikiPageName"](title);
-			expect(pageName).toBe("notion-multiple-spaces-here");
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("**Bold text**");
 		});
 
-		it("should work without prefix", () => {
-			const syncWithoutPrefix = new NotionSync({
-				notionApiToken: "test-token",
-				githubToken: "test-github-token",
-			});
+		it("should convert italic text", () => {
+			const richText = [
+				{
+					plain_text: "Italic text",
+					annotations: { italic: true },
+				},
+			] as RichTextItemResponse[];
 
-			const pageName = syncWithoutPrefix["generateWikiPageName"]("Test Page");
-			expect(pageName).toBe("test-page");
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("*Italic text*");
 		});
 
-		it("should handle special characters and numbers", () => {
-			const title = "API v2.0 - User Guide (2024)";
+		it("should convert code text", () => {
+			const richText = [
+				{
+					plain_text: "code",
+					annotations: { code: true },
+				},
+			] as RichTextItemResponse[];
 
-			const pageName = notionSync["generateWikiPageName"](title);
-			expect(pageName).toBe("notion-api-v20-user-guide-2024");
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("`code`");
 		});
-	});
 
-	describe("convertRichTextToMarkdown", () => {
-		it("should convert plain text", () => {
+		it("should convert strikethrough text", () => {
 			const richText = [
-				{ plain_text: "Hello world" },
+				{
+					plain_text: "strikethrough",
+					annotations: { strikethrough: true },
+				},
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("~~strikethrough~~");
+		});
+
+		it("should convert links", () => {
+			const richText = [
+				{
+					plain_text: "GitHub",
+					href: "https://github.com",
+				},
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("[GitHub](https://github.com)");
+		});
+
+		it("should handle multiple annotations", () => {
+			const richText = [
+				{
+					plain_text: "Bold italic code",
+					annotations: {
+						bold: true,
+						italic: true,
+						code: true,
+					},
+				},
 			] as RichTextItemResponse[];
 
-			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("Hello world");
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("***`Bold italic code`***");
+		});
+
+		it("should handle empty rich text array", () => {
+			const markdown = notionSync["convertRichTextToMarkdown"]([]);
+			expect(markdown).toBe("");
+		});
+
+		it("should handle multiple text elements", () => {
+			const richText = [
+				{ plain_text: "Hello " },
+				{ plain_text: "world", annotations: { bold: true } },
+				{ plain_text: "!" },
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("Hello **world**!");
+		});
+
+		it("should join neighbouring runs with the same formatting", () => {
+			const richText = [
+				{ plain_text: "Hello ", annotations: { bold: true } },
+				{ plain_text: "wor", annotations: { bold: true, color: "default" } },
+				{ plain_text: "ld", annotations: { bold: true, italic: true } },
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("**Hello wor*****ld***");
+		});
+
+		it("should keep whitespace outside the emphasis markers", () => {
+			const richText = [
+				{ plain_text: "Say" },
+				{ plain_text: " hello ", annotations: { bold: true } },
+				{ plain_text: "now" },
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("Say **hello** now");
+		});
+
+		it("should escape Markdown in the text", () => {
+			const richText = [
+				{ plain_text: "# 2 * 3 | [x] costs $5 " },
+				{ plain_text: "a `b`", annotations: { code: true } },
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("\\# 2 \\* 3 \\| \\[x\\] costs \\$5 `` a `b` ``");
+		});
+
+		it("should render underlines and colors as HTML", () => {
+			const richText = [
+				{ plain_text: "Note", annotations: { underline: true } },
+				{ plain_text: " " },
+				{ plain_text: "late", annotations: { color: "red", bold: true } },
+				{ plain_text: " " },
+				{ plain_text: "key", annotations: { color: "yellow_background" } },
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe(
+				'<ins>Note</ins> <span style="color: #d44c47">**late**</span> <mark style="background-color: #fbf3db">key</mark>',
+			);
+		});
+
+		it("should render inline equations", () => {
+			const richText = [
+				{ plain_text: "Area is " },
+				{
+					type: "equation",
+					plain_text: "\\pi r^2",
+					equation: { expression: "\\pi r^2" },
+				},
+			] as RichTextItemResponse[];
+
+			const markdown = notionSync["convertRichTextToMarkdown"](richText);
+			expect(markdown).toBe("Area is $`\\pi r^2`$");
+		});
+	});
+
+	describe("fetchBlockTree", () => {
+		it("should follow pagination cursors and load nested children", async () => {
+			const responses: Record<string, unknown> = {
+				"page-1:": {
+					results: [{ id: "block-1", type: "paragraph", has_children: false }],
+					has_more: true,
+					next_cursor: "cursor-2",
+				},
+				"page-1:cursor-2": {
+					results: [
+						{ id: "block-2", type: "bulleted_list_item", has_children: true },
+						{ id: "child-page-1", type: "child_page", has_children: true },
+					],
+					has_more: false,
+					next_cursor: null,
+				},
+				"block-2:": {
+					results: [{ id: "block-3", type: "paragraph", has_children: false }],
+					has_more: false,
+					next_cursor: null,
+				},
+			};
+			const list = mock(
+				async (args: { block_id: string; start_cursor?: string }) =>
+					responses[`${args.block_id}:${args.start_cursor ?? ""}`],
+			);
+			notionSync["notion"] = {
+				blocks: { children: { list } },
+			} as unknown as NotionSync["notion"];
+
+			const blocks = await notionSync["fetchBlockTree"]("page-1");
+
+			expect(blocks.map((block) => block.id)).toEqual([
+				"block-1",
+				"block-2",
+				"child-page-1",
+			]);
+			expect(blocks[1].children?.map((block) => block.id)).toEqual(["block-3"]);
+			expect(blocks[2].children).toBeUndefined();
+			expect(list).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe("link rewriting", () => {
+		const syncedPageId = "0123456789abcdef0123456789abcdef";
+
+		beforeEach(() => {
+			notionSync["wikiPageNames"].set(syncedPageId, "notion-design-doc");
 		});
 
-		it("should convert bold text", () => {
+		it("should rewrite page mentions of synced pages to wiki links", () => {
 			const richText = [
 				{
-					plain_text: "Bold text",
-					annotations: { bold: true },
+					type: "mention",
+					plain_text: "Design Doc",
+					href: `https://www.notion.so/${syncedPageId}`,
+					mention: {
+						type: "page",
+						page: { id: "01234567-89ab-cdef-0123-456789abcdef" },
+					},
 				},
-			] as RichTextItemResponse[];
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("**Bold text**");
+			expect(markdown).toBe("[Design Doc](notion-design-doc)");
 		});
 
-		it("should convert italic text", () => {
+		it("should keep the Notion URL for pages outside the synced tree", () => {
 			const richText = [
 				{
-					plain_text: "Italic text",
-					annotations: { italic: true },
+					type: "mention",
+					plain_text: "Elsewhere",
+					href: "https://www.notion.so/ffffffffffffffffffffffffffffffff",
+					mention: {
+						type: "page",
+						page: { id: "ffffffff-ffff-ffff-ffff-ffffffffffff" },
+					},
 				},
-			] as RichTextItemResponse[];
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("*Italic text*");
+			expect(markdown).toBe(
+				"[Elsewhere](https://www.notion.so/ffffffffffffffffffffffffffffffff)",
+			);
 		});
 
-		it("should convert code text", () => {
+		it("should rewrite notion.so links to synced pages", () => {
 			const richText = [
 				{
-					plain_text: "code",
-					annotations: { code: true },
+					type: "text",
+					plain_text: "the design doc",
+					href: `https://www.notion.so/acme/Design-Doc-${syncedPageId}?pvs=4`,
 				},
-			] as RichTextItemResponse[];
+				{
+					type: "text",
+					plain_text: " and ",
+				},
+				{
+					type: "text",
+					plain_text: "again",
+					href: `/${syncedPageId}`,
+				},
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("`code`");
+			expect(markdown).toBe(
+				"[the design doc](notion-design-doc) and [again](notion-design-doc)",
+			);
 		});
 
-		it("should convert strikethrough text", () => {
+		it("should link to page files for the repo target", () => {
+			notionSync["config"].target = "repo";
 			const richText = [
 				{
-					plain_text: "strikethrough",
-					annotations: { strikethrough: true },
+					type: "text",
+					plain_text: "the design doc",
+					href: `/${syncedPageId}`,
 				},
-			] as RichTextItemResponse[];
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("~~strikethrough~~");
+			expect(markdown).toBe("[the design doc](notion-design-doc.md)");
 		});
 
-		it("should convert links", () => {
+		it("should render user mentions by name", () => {
 			const richText = [
 				{
-					plain_text: "GitHub",
-					href: "https://github.com",
+					type: "mention",
+					plain_text: "@Ada Lovelace",
+					mention: {
+						type: "user",
+						user: { object: "user", id: "user-1", name: "Ada Lovelace" },
+					},
 				},
-			] as RichTextItemResponse[];
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("[GitHub](https://github.com)");
+			expect(markdown).toBe("@Ada Lovelace");
 		});
 
-		it("should handle multiple annotations", () => {
+		it("should render date mentions as readable ranges", () => {
 			const richText = [
 				{
-					plain_text: "Bold italic code",
-					annotations: {
-						bold: true,
-						italic: true,
-						code: true,
+					type: "mention",
+					plain_text: "2024-03-01T09:30:00.000+00:00 → 2024-03-02",
+					mention: {
+						type: "date",
+						date: {
+							start: "2024-03-01T09:30:00.000+00:00",
+							end: "2024-03-02",
+							time_zone: null,
+						},
 					},
 				},
-			] as RichTextItemResponse[];
+			] as unknown as RichTextItemResponse[];
 
 			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("`***Bold italic code***`");
+			expect(markdown).toBe("2024-03-01 09:30 → 2024-03-02");
 		});
+	});
 
-		it("should handle empty rich text array", () => {
-			const markdown = notionSync["convertRichTextToMarkdown"]([]);
-			expect(markdown).toBe("");
+	describe("sync report", () => {
+		const fetchedPage = (id: string, title: string) => ({
+			page: { object: "page", id } as PageObjectResponse,
+			blocks: [],
+			title,
+			wikiPageName: `notion-${title.toLowerCase()}`,
+			childPageIds: [],
 		});
 
-		it("should handle multiple text elements", () => {
-			const richText = [
-				{ plain_text: "Hello " },
-				{ plain_text: "world", annotations: { bold: true } },
-				{ plain_text: "!" },
-			] as RichTextItemResponse[];
+		beforeEach(() => {
+			notionSync["wiki"] = {
+				readFile: mock(async () => null),
+				writeFile: mock(async () => {}),
+			} as unknown as NotionSync["wiki"];
+			notionSync["syncPageRecursively"] = mock(
+				async (_id: string, _depth: number, pages: unknown[]) => {
+					pages.push(
+						fetchedPage("page-1", "Guide"),
+						fetchedPage("page-2", "FAQ"),
+					);
+				},
+			);
+		});
 
-			const markdown = notionSync["convertRichTextToMarkdown"](richText);
-			expect(markdown).toBe("Hello **world**!");
+		it("should record the outcome of every page", async () => {
+			notionSync["syncPageToWiki"] = mock(async ({ title }) => {
+				if (title === "FAQ") {
+					throw new Error("Could not render table");
+				}
+				return "created" as const;
+			});
+
+			const result = await notionSync["syncSubtrees"](["page-1"]);
+
+			expect(result.status).toBe("partial");
+			expect(result.pagesCreated).toBe(1);
+			expect(result.pagesFailed).toBe(1);
+			expect(result.pages).toEqual([
+				expect.objectContaining({
+					pageId: "page-1",
+					title: "Guide",
+					wikiPageName: "notion-guide",
+					status: "created",
+				}),
+				expect.objectContaining({
+					pageId: "page-2",
+					title: "FAQ",
+					status: "failed",
+					error: "Could not render table",
+				}),
+			]);
+			expect(result.pages[0].durationMs).toBeGreaterThanOrEqual(0);
+		});
+
+		it("should record the block types a page had to leave out", async () => {
+			notionSync["syncPageToWiki"] = mock(
+				async (_page: unknown, unsupportedBlockTypes: Set<string>) => {
+					unsupportedBlockTypes.add("synced_block");
+					return "created" as const;
+				},
+			);
+
+			const result = await notionSync["syncSubtrees"](["page-1"]);
+
+			expect(result.pages[0].unsupportedBlockTypes).toEqual(["synced_block"]);
+		});
+
+		it("should report an error when every page failed", async () => {
+			notionSync["syncPageToWiki"] = mock(async () => {
+				throw new Error("Wiki is read-only");
+			});
+
+			const result = await notionSync["syncSubtrees"](["page-1"]);
+
+			expect(result.status).toBe("error");
+			expect(result.pagesFailed).toBe(2);
+		});
+
+		it("should record pages that failed to load under their last known name", async () => {
+			notionSync["manifest"].set({
+				pageId: "brokenpage",
+				title: "Broken",
+				wikiPageName: "notion-broken",
+				lastEditedTime: "2024-01-01T00:00:00.000Z",
+				contentHash: "hash",
+				childPageIds: [],
+			});
+			notionSync["notion"] = {
+				pages: {
+					retrieve: mock(async () => {
+						throw new Error("socket closed");
+					}),
+				},
+			} as unknown as NotionSync["notion"];
+			notionSync["scheduler"] = new RequestScheduler({ maxRetries: 0 });
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await NotionSync.prototype["syncPageRecursively"].call(
+				notionSync,
+				"broken-page",
+				0,
+				pages,
+			);
+
+			expect(notionSync["pageResults"]).toEqual([
+				expect.objectContaining({
+					pageId: "broken-page",
+					title: "Broken",
+					wikiPageName: "notion-broken",
+					status: "failed",
+					error: "socket closed",
+				}),
+			]);
+		});
+	});
+
+	describe("page graph", () => {
+		const pageWith = (id: string, links: string[], linkType: string) => ({
+			page: {
+				object: "page",
+				id,
+				parent: { type: "page_id", page_id: "root-page" },
+				last_edited_time: "2024-01-01T00:00:00.000Z",
+				properties: {
+					title: { type: "title", title: [{ plain_text: id }] },
+				},
+			},
+			blocks: links.map((link) =>
+				linkType === "child"
+					? { type: "child_page", id: link, has_children: false }
+					: {
+							type: "paragraph",
+							has_children: false,
+							paragraph: {
+								rich_text: [
+									{
+										type: "mention",
+										plain_text: link,
+										mention: { type: "page", page: { id: link } },
+									},
+								],
+							},
+						},
+			),
+		});
+
+		const mockNotion = (graph: Record<string, ReturnType<typeof pageWith>>) => {
+			const retrieve = mock(
+				async ({ page_id }: { page_id: string }) => graph[page_id].page,
+			);
+			notionSync["notion"] = {
+				pages: { retrieve },
+				blocks: {
+					children: {
+						list: mock(async ({ block_id }: { block_id: string }) => ({
+							results: graph[block_id].blocks,
+							has_more: false,
+						})),
+					},
+				},
+			} as unknown as NotionSync["notion"];
+			notionSync["wiki"] = {
+				fileExists: mock(async () => false),
+			} as unknown as NotionSync["wiki"];
+			return retrieve;
+		};
+
+		it("should not follow mentions by default", async () => {
+			mockNotion({
+				a: pageWith("a", ["b"], "mention"),
+				b: pageWith("b", [], "mention"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("a", 0, pages);
+
+			expect(pages.map((page) => page.page.id)).toEqual(["a"]);
+			expect(pages[0].childPageIds).toEqual([]);
+		});
+
+		it("should sync pages that mention each other once and report the cycle", async () => {
+			notionSync["config"].followMentions = true;
+			const retrieve = mockNotion({
+				a: pageWith("a", ["b"], "mention"),
+				b: pageWith("b", ["a"], "mention"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("a", 0, pages);
+
+			expect(pages.map((page) => page.page.id)).toEqual(["a", "b"]);
+			expect(retrieve).toHaveBeenCalledTimes(2);
+			expect(notionSync["cycles"]).toEqual([["a", "b", "a"]]);
+		});
+
+		it("should sync a page reachable from two parents once", async () => {
+			mockNotion({
+				root: pageWith("root", ["left", "right"], "child"),
+				left: pageWith("left", ["shared"], "child"),
+				right: pageWith("right", ["shared"], "child"),
+				shared: pageWith("shared", [], "child"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("root", 0, pages);
+
+			expect(pages.filter((page) => page.page.id === "shared")).toHaveLength(1);
+			expect(notionSync["cycles"]).toEqual([]);
+		});
+
+		it("should tell pages with the same title apart whatever order they load in", async () => {
+			const graph = {
+				root: pageWith("root", ["guides", "ops"], "child"),
+				guides: pageWith("guides", ["b-overview"], "child"),
+				ops: pageWith("ops", ["a-overview"], "child"),
+				"a-overview": pageWith("a-overview", [], "child"),
+				"b-overview": pageWith("b-overview", [], "child"),
+			};
+			for (const id of ["a-overview", "b-overview"]) {
+				graph[id as keyof typeof graph].page.properties.title.title = [
+					{ plain_text: "Overview" },
+				];
+			}
+			mockNotion(graph);
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("root", 0, pages);
+			await notionSync["nameFetchedPages"](pages);
+
+			expect(notionSync["wikiPageNames"].get("aoverview")).toBe(
+				"notion-overview",
+			);
+			expect(notionSync["wikiPageNames"].get("boverview")).toBe(
+				"notion-overview-bovervie",
+			);
+		});
+
+		it("should link pages in directories relative to each other", () => {
+			notionSync["config"].target = "repo";
+			notionSync["pageDirectory"] = "handbook/guides";
+
+			expect(notionSync["linkToPage"]("handbook/guides/setup")).toBe(
+				"setup.md",
+			);
+			expect(notionSync["linkToPage"]("handbook")).toBe("../../handbook.md");
+		});
+
+		it("should skip excluded pages with everything beneath them", async () => {
+			notionSync["pageFilter"] = new PageFilter([], [{ pageId: "drafts" }]);
+			const retrieve = mockNotion({
+				root: pageWith("root", ["guide", "drafts"], "child"),
+				guide: pageWith("guide", [], "child"),
+				drafts: pageWith("drafts", ["draft"], "child"),
+				draft: pageWith("draft", [], "child"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("root", 0, pages);
+
+			expect(pages.map((page) => page.page.id)).toEqual(["root", "guide"]);
+			expect(retrieve).toHaveBeenCalledTimes(2);
+			expect(notionSync["excludedPages"]).toEqual([
+				{ pageId: "drafts", title: "", reason: "excluded by page ID drafts" },
+			]);
+		});
+
+		it("should skip pages by title before fetching their content", async () => {
+			notionSync["pageFilter"] = new PageFilter([], [{ title: "WIP*" }]);
+			mockNotion({
+				root: pageWith("root", ["guide", "wip"], "child"),
+				guide: pageWith("guide", [], "child"),
+				wip: {
+					...pageWith("wip", ["draft"], "child"),
+					page: {
+						...pageWith("wip", [], "child").page,
+						properties: {
+							title: { type: "title", title: [{ plain_text: "WIP: Roadmap" }] },
+						},
+					},
+				},
+				draft: pageWith("draft", [], "child"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("root", 0, pages);
+
+			expect(pages.map((page) => page.page.id)).toEqual(["root", "guide"]);
+			expect(notionSync["excludedPages"]).toEqual([
+				{
+					pageId: "wip",
+					title: "WIP: Roadmap",
+					reason: "excluded by title WIP*",
+				},
+			]);
+		});
+
+		it("should only sync included pages below the root", async () => {
+			notionSync["pageFilter"] = new PageFilter([{ pageId: "guide" }]);
+			mockNotion({
+				root: pageWith("root", ["guide", "drafts"], "child"),
+				guide: pageWith("guide", ["chapter"], "child"),
+				chapter: pageWith("chapter", [], "child"),
+				drafts: pageWith("drafts", [], "child"),
+			});
+
+			const pages: Parameters<NotionSync["syncPageToWiki"]>[0][] = [];
+			await notionSync["syncPageRecursively"]("root", 0, pages);
+
+			expect(pages.map((page) => page.page.id)).toEqual([
+				"root",
+				"guide",
+				"chapter",
+			]);
+			expect(notionSync["excludedPages"]).toEqual([
+				{
+					pageId: "drafts",
+					title: "drafts",
+					reason: "not matched by any include rule",
+				},
+			]);
 		});
 	});
 
@@ -273,7 +2032,34 @@ describe("NotionSync", () => {
 			] as BlockObjectResponse[];
 
 			const childIds = notionSync["extractChildPageIds"](blocks);
-			expect(childIds).toEqual(["child-page-1", "mentioned-page-1"]);
+			expect(childIds).toEqual(["child-page-1"]);
+			expect(notionSync["extractMentionedPageIds"](blocks)).toEqual([
+				"mentioned-page-1",
+			]);
+		});
+
+		it("should find mentions in any block with rich text", () => {
+			const mention = {
+				type: "mention",
+				mention: { type: "page", page: { id: "mentioned-page-1" } },
+			};
+			const blocks = [
+				{ type: "heading_2", heading_2: { rich_text: [mention] } },
+				{
+					type: "toggle",
+					toggle: { rich_text: [] },
+					children: [
+						{
+							type: "bulleted_list_item",
+							bulleted_list_item: { rich_text: [mention] },
+						},
+					],
+				},
+			] as unknown as NotionBlock[];
+
+			expect(notionSync["extractMentionedPageIds"](blocks)).toEqual([
+				"mentioned-page-1",
+			]);
 		});
 
 		it("should return empty array for blocks without child pages", () => {
@@ -409,6 +2195,68 @@ describe("NotionSync", () => {
 			expect(numberedMarkdown).toBe("1. Numbered item");
 		});
 
+		it("should indent nested list items", async () => {
+			const blocks = [
+				{
+					type: "bulleted_list_item",
+					bulleted_list_item: { rich_text: [{ plain_text: "Parent" }] },
+					children: [
+						{
+							type: "numbered_list_item",
+							numbered_list_item: { rich_text: [{ plain_text: "First" }] },
+						},
+						{
+							type: "numbered_list_item",
+							numbered_list_item: { rich_text: [{ plain_text: "Second" }] },
+						},
+					],
+				},
+				{
+					type: "bulleted_list_item",
+					bulleted_list_item: { rich_text: [{ plain_text: "Sibling" }] },
+				},
+			] as unknown as NotionBlock[];
+
+			const markdown = await notionSync["convertBlocksToMarkdown"](
+				blocks,
+				pageMetadata("Lists"),
+			);
+			expect(markdown).toBe(
+				"# Lists\n\n- Parent\n  1. First\n  1. Second\n- Sibling",
+			);
+		});
+
+		it("should link child pages and databases without reporting them", async () => {
+			notionSync["wikiPageNames"].set(
+				"11111111111111111111111111111111",
+				"notion-child",
+			);
+			const blocks = [
+				{
+					id: "11111111-1111-1111-1111-111111111111",
+					type: "child_page",
+					child_page: { title: "Child" },
+				},
+				{
+					id: "22222222-2222-2222-2222-222222222222",
+					type: "child_database",
+					child_database: { title: "Excluded" },
+				},
+			] as unknown as NotionBlock[];
+			const unsupportedBlockTypes = new Set<string>();
+
+			const markdown = await notionSync["convertBlocksToMarkdown"](
+				blocks,
+				pageMetadata("Parent"),
+				"",
+				unsupportedBlockTypes,
+			);
+
+			expect(markdown).toBe("# Parent\n\n[Child](notion-child)");
+			expect(unsupportedBlockTypes.size).toBe(0);
+			expect(mockCore.warning).not.toHaveBeenCalled();
+		});
+
 		it("should convert code blocks", async () => {
 			const block = {
 				type: "code",
@@ -443,6 +2291,301 @@ describe("NotionSync", () => {
 			expect(markdown).toBe("---");
 		});
 
+		it("should convert to-do blocks into task list items", async () => {
+			const blocks = [
+				{
+					type: "to_do",
+					to_do: { rich_text: [{ plain_text: "Done" }], checked: true },
+				},
+				{
+					type: "to_do",
+					to_do: { rich_text: [{ plain_text: "Pending" }], checked: false },
+				},
+			] as unknown as NotionBlock[];
+
+			const markdown = await notionSync["convertBlocksToMarkdown"](
+				blocks,
+				pageMetadata("Tasks"),
+			);
+			expect(markdown).toBe("# Tasks\n\n- [x] Done\n- [ ] Pending");
+		});
+
+		it("should convert toggle blocks into details elements", async () => {
+			const block = {
+				type: "toggle",
+				toggle: { rich_text: [{ plain_text: "More info" }] },
+				children: [
+					{
+						type: "paragraph",
+						paragraph: { rich_text: [{ plain_text: "Hidden text" }] },
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe(
+				"<details>\n<summary>More info</summary>\n\nHidden text\n\n</details>",
+			);
+		});
+
+		it("should convert callout blocks into blockquotes with the icon", async () => {
+			const block = {
+				type: "callout",
+				callout: {
+					rich_text: [{ plain_text: "Be careful" }],
+					icon: { type: "emoji", emoji: "⚠️" },
+				},
+				children: [
+					{
+						type: "paragraph",
+						paragraph: { rich_text: [{ plain_text: "Details" }] },
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("> ⚠️ Be careful\n>\n> Details");
+		});
+
+		it("should convert table blocks into GFM pipe tables", async () => {
+			const block = {
+				type: "table",
+				table: {
+					table_width: 2,
+					has_column_header: true,
+					has_row_header: false,
+				},
+				children: [
+					{
+						type: "table_row",
+						table_row: {
+							cells: [[{ plain_text: "Name" }], [{ plain_text: "Value" }]],
+						},
+					},
+					{
+						type: "table_row",
+						table_row: {
+							cells: [[{ plain_text: "a|b" }], [{ plain_text: "1" }]],
+						},
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("| Name | Value |\n| --- | --- |\n| a\\|b | 1 |");
+		});
+
+		it("should add a blank header row to tables without a column header", async () => {
+			const block = {
+				type: "table",
+				table: {
+					table_width: 2,
+					has_column_header: false,
+					has_row_header: false,
+				},
+				children: [
+					{
+						type: "table_row",
+						table_row: {
+							cells: [[{ plain_text: "a" }], [{ plain_text: "b" }]],
+						},
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("|  |  |\n| --- | --- |\n| a | b |");
+		});
+
+		it("should render column lists as sequential content", async () => {
+			const block = {
+				type: "column_list",
+				column_list: {},
+				children: [
+					{
+						type: "column",
+						column: {},
+						children: [
+							{
+								type: "paragraph",
+								paragraph: { rich_text: [{ plain_text: "Left" }] },
+							},
+						],
+					},
+					{
+						type: "column",
+						column: {},
+						children: [
+							{
+								type: "paragraph",
+								paragraph: { rich_text: [{ plain_text: "Right" }] },
+							},
+						],
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("Left\n\nRight");
+		});
+
+		it("should render synced block content", async () => {
+			const block = {
+				type: "synced_block",
+				synced_block: { synced_from: null },
+				children: [
+					{
+						type: "paragraph",
+						paragraph: { rich_text: [{ plain_text: "Shared" }] },
+					},
+				],
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("Shared");
+		});
+
+		it("should convert bookmark blocks into links", async () => {
+			const block = {
+				type: "bookmark",
+				bookmark: {
+					url: "https://example.com",
+					caption: [{ plain_text: "Example" }],
+				},
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("[Example](https://example.com)");
+		});
+
+		it("should convert embed blocks into links", async () => {
+			const block = {
+				type: "embed",
+				embed: { url: "https://example.com/embed", caption: [] },
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe(
+				"[https://example.com/embed](https://example.com/embed)",
+			);
+		});
+
+		it("should convert link preview blocks into links", async () => {
+			const block = {
+				type: "link_preview",
+				link_preview: { url: "https://github.com/org/repo/pull/1" },
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe(
+				"[https://github.com/org/repo/pull/1](https://github.com/org/repo/pull/1)",
+			);
+		});
+
+		it("should convert equation blocks into math blocks", async () => {
+			const block = {
+				type: "equation",
+				equation: { expression: "e = mc^2" },
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("$$\ne = mc^2\n$$");
+		});
+
+		it("should render a table of contents from page headings", async () => {
+			const blocks = [
+				{ type: "table_of_contents", table_of_contents: {} },
+				{
+					type: "heading_1",
+					heading_1: { rich_text: [{ plain_text: "Getting Started" }] },
+				},
+				{
+					type: "heading_2",
+					heading_2: { rich_text: [{ plain_text: "Install (v2)" }] },
+				},
+			] as unknown as NotionBlock[];
+
+			const markdown = await notionSync["convertBlocksToMarkdown"](
+				blocks,
+				pageMetadata("Guide"),
+			);
+			expect(markdown).toBe(
+				"# Guide\n\n- [Getting Started](#getting-started)\n  - [Install (v2)](#install-v2)\n\n# Getting Started\n\n## Install (v2)",
+			);
+		});
+
+		it("should store Notion-hosted images and keep captions", async () => {
+			const store = mock(async () => "assets/0123456789abcdef.png");
+			notionSync["assetStore"] = {
+				store,
+			} as unknown as NotionSync["assetStore"];
+
+			const block = {
+				id: "image-block",
+				type: "image",
+				image: {
+					type: "file",
+					file: {
+						url: "https://files.notion.so/diagram.png?X-Amz-Expires=3600",
+						expiry_time: "2024-01-01T00:00:00.000Z",
+					},
+					caption: [{ plain_text: "Architecture diagram" }],
+				},
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(store).toHaveBeenCalledWith(
+				"https://files.notion.so/diagram.png?X-Amz-Expires=3600",
+			);
+			expect(markdown).toBe(
+				"![Architecture diagram](assets/0123456789abcdef.png)\n*Architecture diagram*",
+			);
+		});
+
+		it("should keep external media URLs as-is", async () => {
+			const store = mock(async () => "assets/unused.png");
+			notionSync["assetStore"] = {
+				store,
+			} as unknown as NotionSync["assetStore"];
+
+			const block = {
+				id: "video-block",
+				type: "video",
+				video: {
+					type: "external",
+					external: { url: "https://example.com/demo.mp4" },
+					caption: [],
+				},
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(store).not.toHaveBeenCalled();
+			expect(markdown).toBe("[demo.mp4](https://example.com/demo.mp4)");
+		});
+
+		it("should link stored files by their Notion file name", async () => {
+			notionSync["assetStore"] = {
+				store: mock(async () => "assets/fedcba9876543210.pdf"),
+			} as unknown as NotionSync["assetStore"];
+
+			const block = {
+				id: "file-block",
+				type: "file",
+				file: {
+					type: "file",
+					name: "Runbook.pdf",
+					file: {
+						url: "https://files.notion.so/runbook.pdf",
+						expiry_time: "2024-01-01T00:00:00.000Z",
+					},
+					caption: [],
+				},
+			} as unknown as NotionBlock;
+
+			const markdown = await notionSync["convertBlockToMarkdown"](block);
+			expect(markdown).toBe("[Runbook.pdf](assets/fedcba9876543210.pdf)");
+		});
+
 		it("should handle unsupported block types", async () => {
 			const block = {
 				type: "unsupported_block_type",
@@ -453,3 +2596,49 @@ describe("NotionSync", () => {
 		});
 	});
 });
+
+describe("mergeSyncResults", () => {
+	const result = (
+		status: SyncResult["status"],
+		pagesCreated: number,
+		pullRequestUrl?: string,
+	): SyncResult => ({
+		pagesSynced: pagesCreated,
+		pagesCreated,
+		pagesUpdated: 0,
+		pagesSkipped: 0,
+		pagesFailed: status === "success" ? 0 : 1,
+		pagesPruned: 0,
+		cycles: [],
+		pages: [],
+		apiCalls: 10,
+		durationMs: 100,
+		...(pullRequestUrl && { pullRequestUrl }),
+		status,
+	});
+
+	it("should add up the counts of every root", () => {
+		const merged = mergeSyncResults([
+			result("success", 2, "https://github.com/o/r/pull/1"),
+			result("success", 3, "https://github.com/o/r/pull/1"),
+		]);
+
+		expect(merged).toMatchObject({
+			pagesSynced: 5,
+			pagesCreated: 5,
+			apiCalls: 20,
+			durationMs: 200,
+			pullRequestUrl: "https://github.com/o/r/pull/1",
+			status: "success",
+		});
+	});
+
+	it("should be partial when the roots ended differently", () => {
+		expect(
+			mergeSyncResults([result("success", 1), result("error", 0)]).status,
+		).toBe("partial");
+		expect(
+			mergeSyncResults([result("error", 0), result("error", 0)]).status,
+		).toBe("error");
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "bun:test";
+import type { PageObjectResponse } from "@notionhq/client";
+import {
+	describePageRule,
+	PageFilter,
+	parsePageRules,
+} from "../src/page-filter";
+
+const properties = {
+	"Publish to wiki": { type: "checkbox", checkbox: false },
+	Status: { type: "status", status: { name: "Draft" } },
+	Stage: { type: "select", select: null },
+	Tags: {
+		type: "multi_select",
+		multi_select: [{ name: "internal" }, { name: "ops" }],
+	},
+} as unknown as PageObjectResponse["properties"];
+
+const page = {
+	id: "0123abcd-0000-0000-0000-000000000000",
+	title: "WIP: Roadmap",
+	properties,
+	lastEditedBy: "user-1",
+};
+
+describe("PageFilter", () => {
+	it("should match pages by ID whatever the dashes", () => {
+		const filter = new PageFilter(
+			[],
+			[{ pageId: "0123ABCD000000000000000000000000" }],
+		);
+
+		expect(filter.excludedBy({ id: page.id })).toEqual({
+			pageId: "0123ABCD000000000000000000000000",
+		});
+		expect(filter.excludedBy({ id: "other" })).toBeUndefined();
+	});
+
+	it("should match titles by glob or regular expression", () => {
+		const matches = (title: string) =>
+			!!new PageFilter([], [{ title }]).excludedBy(page);
+
+		expect(matches("wip*")).toBe(true);
+		expect(matches("WIP")).toBe(false);
+		expect(matches("WIP: ?oadmap")).toBe(true);
+		expect(matches("/^WIP:/")).toBe(true);
+		expect(matches("/^wip:/")).toBe(false);
+		expect(matches("/^wip:/gi")).toBe(true);
+		// Only the page is known before it is fetched
+		expect(new PageFilter([], [{ title: "*" }]).excludedBy({ id: "a" })).toBe(
+			undefined,
+		);
+	});
+
+	it("should match checkbox, status, select and multi-select values", () => {
+		const matches = (property: string, equals: boolean | string) =>
+			new PageFilter([{ property, equals }]).includes(page);
+
+		expect(matches("Publish to wiki", false)).toBe(true);
+		expect(matches("Publish to wiki", true)).toBe(false);
+		expect(matches("Status", "Draft")).toBe(true);
+		expect(matches("Stage", "Draft")).toBe(false);
+		expect(matches("Tags", "ops")).toBe(true);
+		expect(matches("Missing", "ops")).toBe(false);
+	});
+
+	it("should match the user who edited the page last", () => {
+		expect(
+			new PageFilter([{ editedBy: ["user-2", "user-1"] }]).includes(page),
+		).toBe(true);
+		expect(new PageFilter([{ editedBy: ["user-2"] }]).includes(page)).toBe(
+			false,
+		);
+	});
+});
+
+describe("parsePageRules", () => {
+	it("should read page IDs and rule mappings", () => {
+		expect(
+			parsePageRules(
+				[
+					"abc",
+					{ "page-id": "def" },
+					{ title: "WIP*" },
+					{ property: "Publish to wiki", equals: false },
+					{ "edited-by": "user-1" },
+				],
+				"exclude",
+			),
+		).toEqual([
+			{ pageId: "abc" },
+			{ pageId: "def" },
+			{ title: "WIP*" },
+			{ property: "Publish to wiki", equals: false },
+			{ editedBy: ["user-1"] },
+		]);
+	});
+
+	it("should say what is wrong with the first invalid rule", () => {
+		expect(parsePageRules("abc", "exclude")).toBe(
+			"exclude must be a list of rules",
+		);
+		expect(parsePageRules([{ title: "a", property: "b" }], "exclude")).toBe(
+			"exclude[0] must be a page ID or a mapping with one of: page-id, title, property, edited-by",
+		);
+		expect(parsePageRules(["abc", { property: "Status" }], "exclude")).toBe(
+			"exclude[1].equals must be true or false for a checkbox, or the name of an option",
+		);
+		expect(parsePageRules([{ title: "/(/" }], "include")).toStartWith(
+			"include[0].title is not a valid regular expression:",
+		);
+		expect(parsePageRules([{ title: "a", equals: "b" }], "include")).toBe(
+			'include[0]: unknown key "equals" in a title rule',
+		);
+	});
+});
+
+describe("describePageRule", () => {
+	it("should name each kind of rule", () => {
+		expect(describePageRule({ pageId: "abc" })).toBe("page ID abc");
+		expect(describePageRule({ title: "WIP*" })).toBe("title WIP*");
+		expect(describePageRule({ property: "Status", equals: "Draft" })).toBe(
+			"Status = Draft",
+		);
+		expect(describePageRule({ editedBy: ["u1", "u2"] })).toBe("editor u1, u2");
+	});
+});
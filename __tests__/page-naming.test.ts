@@ -0,0 +1,142 @@
+import { describe, expect, it } from "bun:test";
+import { assignPageNames, slugify } from "../src/page-naming";
+
+const page = (pageId: string, title: string, parentId?: string) => ({
+	pageId,
+	title,
+	parentId,
+});
+
+describe("slugify", () => {
+	it("should sanitize titles", () => {
+		expect(slugify("My Test Page!@#$")).toBe("my-test-page");
+		expect(slugify("Multiple   Spaces   Here")).toBe("multiple-spaces-here");
+		expect(slugify("API v2.0 - User Guide (2024)")).toBe(
+			"api-v20-user-guide-2024",
+		);
+	});
+
+	it("should drop accents and symbols around the title", () => {
+		expect(slugify("🚀 Launch")).toBe("launch");
+		expect(slugify("Café Menü")).toBe("cafe-menu");
+		expect(slugify("日本語ガイド")).toBe("");
+	});
+
+	it("should keep letters of every script when preserving Unicode", () => {
+		expect(slugify("日本語ガイド", true)).toBe("日本語ガイド");
+		expect(slugify("🚀 Запуск ракеты", true)).toBe("запуск-ракеты");
+	});
+});
+
+describe("assignPageNames", () => {
+	it("should add the prefix to top-level names", () => {
+		const names = assignPageNames([page("a", "Test Page")], new Map(), {
+			prefix: "notion",
+		});
+
+		expect(names.get("a")).toBe("notion-test-page");
+	});
+
+	it("should never give an empty name", () => {
+		const names = assignPageNames(
+			[
+				page("0123456789abcdef", "日本語ガイド"),
+				page("fedcba9876543210", "!!!"),
+			],
+			new Map(),
+		);
+
+		expect(names.get("0123456789abcdef")).toBe("untitled-01234567");
+		expect(names.get("fedcba9876543210")).toBe("untitled-fedcba98");
+	});
+
+	it("should tell pages with the same name apart by their ID", () => {
+		const pages = [
+			page("bbbbbbbb2222", "Overview"),
+			page("aaaaaaaa1111", "Overview"),
+			page("cccccccc3333", "overview!"),
+		];
+
+		const names = assignPageNames(pages, new Map());
+
+		expect(names).toEqual(
+			new Map([
+				["aaaaaaaa1111", "overview"],
+				["bbbbbbbb2222", "overview-bbbbbbbb"],
+				["cccccccc3333", "overview-cccccccc"],
+			]),
+		);
+		// The order pages come in makes no difference
+		expect(assignPageNames(pages.reverse(), new Map())).toEqual(names);
+	});
+
+	it("should let pages keep their name from the last sync", () => {
+		const names = assignPageNames(
+			[page("aaaa", "Overview"), page("bbbb", "Overview")],
+			new Map([
+				["bbbb", "overview"],
+				["cccc", "home-page"],
+			]),
+		);
+
+		expect(names.get("bbbb")).toBe("overview");
+		expect(names.get("aaaa")).toBe("overview-aaaa");
+	});
+
+	it("should not take the names of other synced pages or the wiki's own", () => {
+		const names = assignPageNames(
+			[page("aaaa", "Setup"), page("bbbb", "Home")],
+			new Map([["cccc", "setup"]]),
+		);
+
+		expect(names.get("aaaa")).toBe("setup-aaaa");
+		expect(names.get("bbbb")).toBe("home-bbbb");
+	});
+
+	it("should not take the names of archived pages", () => {
+		const names = assignPageNames([page("aaaa", "Archived Setup")], new Map(), {
+			takenNames: ["Archived-setup"],
+		});
+
+		expect(names.get("aaaa")).toBe("archived-setup-aaaa");
+	});
+
+	it("should put children in their parent's directory", () => {
+		const names = assignPageNames(
+			[
+				page("child", "Overview", "parent"),
+				page("parent", "Handbook"),
+				page("grandchild", "Setup", "child"),
+				page("moved", "Overview", "synced-before"),
+			],
+			new Map([["synced-before", "docs/ops"]]),
+			{ strategy: "hierarchical", prefix: "docs" },
+		);
+
+		expect(names.get("parent")).toBe("docs/handbook");
+		expect(names.get("child")).toBe("docs/handbook/overview");
+		expect(names.get("grandchild")).toBe("docs/handbook/overview/setup");
+		expect(names.get("moved")).toBe("docs/ops/overview");
+	});
+
+	it("should add the start of the Notion ID with slug-id", () => {
+		const names = assignPageNames(
+			[page("0123456789abcdef", "Overview")],
+			new Map(),
+			{ strategy: "slug-id" },
+		);
+
+		expect(names.get("0123456789abcdef")).toBe("overview-01234567");
+	});
+
+	it("should keep Unicode titles with unicode", () => {
+		const names = assignPageNames(
+			[page("aaaa", "日本語ガイド"), page("bbbb", "🚀 Launch")],
+			new Map(),
+			{ strategy: "unicode" },
+		);
+
+		expect(names.get("aaaa")).toBe("日本語ガイド");
+		expect(names.get("bbbb")).toBe("launch");
+	});
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+	buildPullRequestBody,
+	type GitHubClient,
+	PullRequestPublisher,
+} from "../src/pull-request";
+
+describe("buildPullRequestBody", () => {
+	it("should list the changed pages by title", () => {
+		const body = buildPullRequestBody(
+			[
+				{ filename: "docs/notion-guide.md", status: "modified" },
+				{ filename: "docs/notion-old.md", status: "removed" },
+				{ filename: "docs/assets/logo.png", status: "added" },
+				{ filename: "src/index.ts", status: "modified" },
+			],
+			new Map([["notion-guide.md", "Guide"]]),
+			"docs",
+			"https://github.com/owner/repo/actions/runs/1",
+		);
+
+		expect(body).toContain(
+			"Pages synced from Notion by [this workflow run](https://github.com/owner/repo/actions/runs/1).",
+		);
+		expect(body).toContain("- **Guide** (`docs/notion-guide.md`): modified");
+		expect(body).toContain("- `docs/notion-old.md`: removed");
+		expect(body).not.toContain("logo.png");
+		expect(body).not.toContain("src/index.ts");
+	});
+});
+
+describe("PullRequestPublisher", () => {
+	let octokit: {
+		rest: {
+			repos: Record<string, ReturnType<typeof mock>>;
+			pulls: Record<string, ReturnType<typeof mock>>;
+		};
+	};
+
+	const createPublisher = (base?: string) =>
+		new PullRequestPublisher(octokit as unknown as GitHubClient, {
+			repository: "owner/repo",
+			branch: "notion-sync",
+			base,
+			directory: "docs",
+		});
+
+	beforeEach(() => {
+		octokit = {
+			rest: {
+				repos: {
+					get: mock(async () => ({ data: { default_branch: "main" } })),
+					compareCommitsWithBasehead: mock(async () => ({
+						data: {
+							files: [{ filename: "docs/notion-guide.md", status: "added" }],
+						},
+					})),
+				},
+				pulls: {
+					list: mock(async () => ({ data: [] })),
+					create: mock(async () => ({
+						data: { number: 7, html_url: "https://github.com/pull/7" },
+					})),
+					update: mock(async () => ({ data: {} })),
+				},
+			},
+		};
+	});
+
+	it("should open a pull request against the default branch", async () => {
+		const url = await createPublisher().publish(
+			new Map([["notion-guide.md", "Guide"]]),
+		);
+
+		expect(url).toBe("https://github.com/pull/7");
+		expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+			expect.objectContaining({ basehead: "main...notion-sync" }),
+		);
+		expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+			expect.objectContaining({
+				owner: "owner",
+				repo: "repo",
+				head: "notion-sync",
+				base: "main",
+				body: expect.stringContaining("**Guide**"),
+			}),
+		);
+	});
+
+	it("should update the pull request a previous run opened", async () => {
+		octokit.rest.pulls.list = mock(async () => ({
+			data: [{ number: 3, html_url: "https://github.com/pull/3" }],
+		}));
+
+		const url = await createPublisher("develop").publish(new Map());
+
+		expect(url).toBe("https://github.com/pull/3");
+		expect(octokit.rest.repos.get).not.toHaveBeenCalled();
+		expect(octokit.rest.pulls.list).toHaveBeenCalledWith(
+			expect.objectContaining({
+				head: "owner:notion-sync",
+				base: "develop",
+				state: "open",
+			}),
+		);
+		expect(octokit.rest.pulls.update).toHaveBeenCalledWith(
+			expect.objectContaining({ pull_number: 3 }),
+		);
+		expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+	});
+});
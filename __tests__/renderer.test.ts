@@ -0,0 +1,159 @@
+import { describe, expect, it } from "bun:test";
+import {
+	createRenderer,
+	GfmRenderer,
+	HtmlRenderer,
+	MdxRenderer,
+	type PageMetadata,
+} from "../src/renderer";
+
+const metadata: PageMetadata = {
+	title: 'Guide: "Setup"',
+	notionId: "page-1",
+	lastEditedTime: "2024-01-01T00:00:00.000Z",
+	sidebarPosition: 2,
+};
+
+describe("createRenderer", () => {
+	it("should pick the renderer for the output format", () => {
+		expect(createRenderer()).toBeInstanceOf(GfmRenderer);
+		expect(createRenderer("mdx").fileExtension).toBe(".mdx");
+		expect(createRenderer("html").fileExtension).toBe(".html");
+	});
+});
+
+describe("GfmRenderer", () => {
+	const renderer = new GfmRenderer();
+
+	it("should escape the page title", () => {
+		expect(
+			renderer.page({ ...metadata, title: "C# *pointers* | tips" }, "Body"),
+		).toBe("# C# \\*pointers\\* \\| tips\n\nBody");
+	});
+
+	it("should escape text that would start a block", () => {
+		expect(renderer.text("1. first\n- item\n> quote\n---")).toBe(
+			"1\\. first\n\\- item\n\\> quote\n\\---",
+		);
+		expect(renderer.text("AT&T &amp; co")).toBe("AT&T \\&amp; co");
+	});
+
+	it("should fence code with more backticks than it contains", () => {
+		expect(renderer.annotatedText("``", { code: true })).toBe("``` `` ```");
+	});
+
+	it("should leave whitespace-only runs unformatted", () => {
+		expect(renderer.annotatedText("  ", { bold: true })).toBe("  ");
+	});
+
+	it("should keep escaped pipes in table cells as they are", () => {
+		expect(
+			renderer.table(
+				[[renderer.text("a|b"), renderer.annotatedText("c|d", { code: true })]],
+				false,
+			),
+		).toContain("| a\\|b | `c\\|d` |");
+	});
+
+	it("should keep nested paragraphs apart from their parent", () => {
+		expect(renderer.paragraph("Parent", renderer.paragraph("Child", ""))).toBe(
+			"Parent\n\n  Child",
+		);
+	});
+});
+
+describe("MdxRenderer", () => {
+	const renderer = new MdxRenderer();
+
+	it("should put the page metadata in front matter instead of a heading", () => {
+		const page = renderer.page(metadata, "Body");
+
+		expect(page).toBe(
+			[
+				"---",
+				'title: "Guide: \\"Setup\\""',
+				'notion_id: "page-1"',
+				'last_edited: "2024-01-01T00:00:00.000Z"',
+				"sidebar_position: 2",
+				"---",
+				"",
+				"Body",
+			].join("\n"),
+		);
+	});
+
+	it("should insert notices after the front matter", () => {
+		const page = renderer.notice(
+			renderer.page(metadata, "Body"),
+			"Archived",
+			"Removed from Notion.",
+		);
+
+		expect(page).toContain(
+			"---\n\n:::caution[Archived]\n\nRemoved from Notion.\n\n:::\n\nBody",
+		);
+	});
+
+	it("should turn callouts into admonitions by color, then icon", () => {
+		expect(renderer.callout("Careful", "", { color: "red_background" })).toBe(
+			":::danger\n\nCareful\n\n:::",
+		);
+		expect(renderer.callout("Hint", "", { icon: "💡" })).toContain(":::tip");
+		expect(renderer.callout("Plain", "", { color: "default" })).toContain(
+			":::note",
+		);
+	});
+
+	it("should escape text MDX would parse as JSX", () => {
+		expect(renderer.text("a {b} <c>")).toBe("a \\{b\\} &lt;c>");
+		expect(renderer.text("\\<c>")).toBe("\\\\&lt;c>");
+	});
+
+	it("should escape headings, alt text and file names", () => {
+		expect(
+			renderer.tableOfContents([
+				{ level: 1, text: "Use {braces} <T>", anchor: "use-braces-t" },
+			]),
+		).toBe("- [Use \\{braces\\} &lt;T>](#use-braces-t)");
+		expect(renderer.image("a.png", "<Logo>", "")).toBe("![&lt;Logo>](a.png)");
+		expect(renderer.file("a.pdf", "{spec}.pdf", "")).toBe(
+			"[\\{spec\\}.pdf](a.pdf)",
+		);
+	});
+
+	it("should give colors as JSX styles", () => {
+		expect(renderer.annotatedText("Done", { color: "green" })).toBe(
+			'<span style={{ color: "#448361" }}>Done</span>',
+		);
+		expect(renderer.inlineEquation("x^{2}")).toBe("$x^{2}$");
+	});
+});
+
+describe("HtmlRenderer", () => {
+	const renderer = new HtmlRenderer();
+
+	it("should render a standalone document with escaped metadata", () => {
+		const page = renderer.page(metadata, renderer.paragraph("Hi", ""));
+
+		expect(page).toContain("<title>Guide: &quot;Setup&quot;</title>");
+		expect(page).toContain('<meta name="notion-id" content="page-1">');
+		expect(page).toContain(
+			"<body>\n<h1>Guide: &quot;Setup&quot;</h1>\n<p>Hi</p>",
+		);
+	});
+
+	it("should escape text and code", () => {
+		expect(
+			renderer.annotatedText("<b> & co", { bold: true, italic: true }),
+		).toBe("<em><strong>&lt;b&gt; &amp; co</strong></em>");
+		expect(
+			renderer.annotatedText("Due", { underline: true, color: "blue" }),
+		).toBe('<span style="color: #337ea9"><u>Due</u></span>');
+		expect(renderer.inlineEquation("a < b")).toBe(
+			'<span class="math">\\(a &lt; b\\)</span>',
+		);
+		expect(renderer.code("a < b", "ts")).toBe(
+			'<pre><code class="language-ts">a &lt; b</code></pre>',
+		);
+	});
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it, mock } from "bun:test";
+import { APIErrorCode, APIResponseError } from "@notionhq/client";
+import {
+	ConcurrencyLimiter,
+	getRetryAfterMs,
+	isRetryableError,
+	RequestScheduler,
+} from "../src/request-scheduler";
+
+mock.module("@actions/core", () => ({
+	info: mock(),
+	error: mock(),
+	warning: mock(),
+}));
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+	new APIResponseError({
+		code:
+			status === 429
+				? APIErrorCode.RateLimited
+				: APIErrorCode.InternalServerError,
+		status,
+		message: `HTTP ${status}`,
+		headers: new Headers(headers),
+		rawBodyText: "",
+	});
+
+describe("RequestScheduler", () => {
+	const createScheduler = (sleep = mock(async (_ms: number) => {})) => ({
+		sleep,
+		scheduler: new RequestScheduler({ burst: 100, maxRetries: 3, sleep }),
+	});
+
+	it("should retry rate limited requests after Retry-After", async () => {
+		const { scheduler, sleep } = createScheduler();
+		const request = mock()
+			.mockRejectedValueOnce(apiError(429, { "retry-after": "2" }))
+			.mockResolvedValueOnce("page");
+
+		expect(await scheduler.run(request)).toBe("page");
+		expect(request).toHaveBeenCalledTimes(2);
+		expect(sleep.mock.calls.some(([ms]) => ms === 2000)).toBe(true);
+	});
+
+	it("should back off exponentially on server errors", async () => {
+		const { scheduler, sleep } = createScheduler();
+		const request = mock()
+			.mockRejectedValueOnce(apiError(502))
+			.mockRejectedValueOnce(apiError(503))
+			.mockResolvedValueOnce("page");
+
+		expect(await scheduler.run(request)).toBe("page");
+		expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([1000, 2000]);
+	});
+
+	it("should count every request sent, retries included", async () => {
+		const { scheduler } = createScheduler();
+		await scheduler.run(
+			mock().mockRejectedValueOnce(apiError(500)).mockResolvedValueOnce("page"),
+		);
+		await scheduler.run(mock().mockResolvedValueOnce("page"));
+
+		expect(scheduler.requestCount).toBe(3);
+	});
+
+	it("should give up after the maximum number of retries", async () => {
+		const { scheduler } = createScheduler();
+		const request = mock(async () => {
+			throw apiError(500);
+		});
+
+		await expect(scheduler.run(request)).rejects.toThrow("HTTP 500");
+		expect(request).toHaveBeenCalledTimes(4);
+	});
+
+	it("should not retry client errors", async () => {
+		const { scheduler } = createScheduler();
+		const request = mock(async () => {
+			throw apiError(404);
+		});
+
+		await expect(scheduler.run(request)).rejects.toThrow("HTTP 404");
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+
+	it("should space requests out once the burst is used up", async () => {
+		const scheduler = new RequestScheduler({ requestsPerSecond: 20, burst: 1 });
+		const startedAt = Date.now();
+
+		for (let i = 0; i < 3; i++) {
+			await scheduler.run(async () => i);
+		}
+
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+	});
+});
+
+describe("isRetryableError", () => {
+	it("should retry rate limits, server errors and dropped connections", () => {
+		expect(isRetryableError(apiError(429))).toBe(true);
+		expect(isRetryableError(apiError(504))).toBe(true);
+		expect(isRetryableError(new Error("read ECONNRESET"))).toBe(true);
+		expect(
+			isRetryableError(
+				new Error(
+					"fatal: unable to access: The requested URL returned error: 502",
+				),
+			),
+		).toBe(true);
+	});
+
+	it("should not retry anything else", () => {
+		expect(isRetryableError(apiError(400))).toBe(false);
+		expect(isRetryableError(new Error("! [rejected] (fetch first)"))).toBe(
+			false,
+		);
+	});
+});
+
+describe("getRetryAfterMs", () => {
+	it("should read Retry-After from Notion and Octokit errors", () => {
+		expect(getRetryAfterMs(apiError(429, { "retry-after": "3" }))).toBe(3000);
+		expect(
+			getRetryAfterMs({
+				status: 429,
+				response: { headers: { "retry-after": "1" } },
+			}),
+		).toBe(1000);
+		expect(getRetryAfterMs(apiError(429))).toBeNull();
+	});
+});
+
+describe("ConcurrencyLimiter", () => {
+	it("should run every task with bounded concurrency", async () => {
+		const limiter = new ConcurrencyLimiter(2);
+		let running = 0;
+		let maxRunning = 0;
+		const processed: number[] = [];
+
+		await Promise.all(
+			[1, 2, 3, 4, 5].map((item) =>
+				limiter.run(async () => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					processed.push(item);
+					running--;
+				}),
+			),
+		);
+
+		expect(processed.sort()).toEqual([1, 2, 3, 4, 5]);
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should share the limit between nested tasks", async () => {
+		const limiter = new ConcurrencyLimiter(2);
+		let running = 0;
+		let maxRunning = 0;
+		const visit = async (depth: number): Promise<void> => {
+			await limiter.run(async () => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				running--;
+			});
+			if (depth < 3) {
+				await Promise.all([visit(depth + 1), visit(depth + 1)]);
+			}
+		};
+
+		await visit(0);
+
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should free the slot of a failed task", async () => {
+		const limiter = new ConcurrencyLimiter(1);
+
+		await expect(
+			limiter.run(async () => {
+				throw new Error("failed");
+			}),
+		).rejects.toThrow("failed");
+
+		expect(await limiter.run(async () => "next")).toBe("next");
+	});
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { hashContent, SyncManifest } from "../src/sync-manifest";
+
+describe("SyncManifest", () => {
+	const entry = {
+		pageId: "0123456789abcdef0123456789abcdef",
+		title: "Guide",
+		wikiPageName: "notion-guide",
+		lastEditedTime: "2024-01-01T00:00:00.000Z",
+		contentHash: hashContent("# Guide"),
+		childPageIds: ["child-1"],
+	};
+
+	it("should start empty when there is no manifest yet", () => {
+		expect(SyncManifest.parse(null).all()).toEqual([]);
+	});
+
+	it("should round-trip entries through serialize and parse", () => {
+		const manifest = new SyncManifest();
+		manifest.set(entry);
+
+		const parsed = SyncManifest.parse(manifest.serialize());
+		expect(parsed.get(entry.pageId)).toEqual(entry);
+	});
+
+	it("should round-trip redirects", () => {
+		const manifest = new SyncManifest();
+		const redirect = {
+			from: "old-name",
+			to: "new-name",
+			createdAt: "2024-01-01T00:00:00.000Z",
+		};
+		manifest.setRedirect(redirect);
+
+		expect(SyncManifest.parse(manifest.serialize()).getRedirects()).toEqual([
+			redirect,
+		]);
+	});
+
+	it("should round-trip archived pages", () => {
+		const manifest = new SyncManifest();
+		const archivedPage = {
+			wikiPageName: "Archived-old-name",
+			title: "Old Name",
+			archivedAt: "2024-01-01",
+		};
+		manifest.setArchivedPage(archivedPage);
+
+		expect(SyncManifest.parse(manifest.serialize()).getArchivedPages()).toEqual(
+			[archivedPage],
+		);
+	});
+
+	it("should serialize entries in a stable order", () => {
+		const manifest = new SyncManifest();
+		manifest.set({ ...entry, pageId: "b" });
+		manifest.set({ ...entry, pageId: "a" });
+
+		const pageIds = JSON.parse(manifest.serialize()).pages.map(
+			(page: { pageId: string }) => page.pageId,
+		);
+		expect(pageIds).toEqual(["a", "b"]);
+	});
+
+	it("should collect the recorded subtree of a page", () => {
+		const manifest = new SyncManifest();
+		manifest.set({ ...entry, pageId: "root", childPageIds: ["a", "b"] });
+		manifest.set({ ...entry, pageId: "a", childPageIds: ["c"] });
+		manifest.set({ ...entry, pageId: "c", childPageIds: ["a"] });
+		manifest.set({ ...entry, pageId: "other", childPageIds: [] });
+
+		expect([...manifest.getSubtreeIds("a")].sort()).toEqual(["a", "c"]);
+		expect([...manifest.getSubtreeIds("root")].sort()).toEqual([
+			"a",
+			"b",
+			"c",
+			"root",
+		]);
+	});
+
+	it("should move a page to its new parent", () => {
+		const manifest = new SyncManifest();
+		manifest.set({ ...entry, pageId: "old-parent", childPageIds: ["a", "b"] });
+		manifest.set({ ...entry, pageId: "new-parent", childPageIds: ["c"] });
+
+		manifest.moveChild("a", "new-parent");
+
+		expect(manifest.get("old-parent")?.childPageIds).toEqual(["b"]);
+		expect(manifest.get("new-parent")?.childPageIds).toEqual(["c", "a"]);
+	});
+
+	it("should reject manifests in an unknown format", () => {
+		expect(() =>
+			SyncManifest.parse(JSON.stringify({ version: 99, pages: [] })),
+		).toThrow("Unsupported sync manifest format");
+	});
+
+	it("should hash content deterministically", () => {
+		expect(hashContent("a")).toBe(hashContent("a"));
+		expect(hashContent("a")).not.toBe(hashContent("b"));
+	});
+});
@@ -1,9 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { createHmac } from "node:crypto";
 import {
 	extractPageId,
+	extractSignedRequests,
 	getWebhookPayloadFromEnvironment,
+	isWebhookFresh,
+	mergeWebhookEvents,
+	type NotionWebhookEvent,
 	type NotionWebhookPayload,
+	parseWebhookEvent,
+	parseWebhookEvents,
+	routeWebhookEvent,
+	unwrapDispatchPayload,
 	validateWebhookPayload,
+	verifyWebhookSignature,
 } from "../src/webhook-handler";
 
 describe("WebhookHandler", () => {
@@ -136,4 +146,349 @@ describe("WebhookHandler", () => {
 			expect(() => getWebhookPayloadFromEnvironment()).toThrow();
 		});
 	});
+
+	describe("verifyWebhookSignature", () => {
+		const body = '{"type":"page.content_updated","entity":{"id":"page-1"}}';
+		const sign = (content: string, token = "secret_token") =>
+			`sha256=${createHmac("sha256", token).update(content).digest("hex")}`;
+
+		it("should accept a signature made with the verification token", () => {
+			expect(
+				verifyWebhookSignature({ body, signature: sign(body) }, "secret_token"),
+			).toBe(true);
+		});
+
+		it("should reject a signature made with another token", () => {
+			expect(
+				verifyWebhookSignature(
+					{ body, signature: sign(body, "other_token") },
+					"secret_token",
+				),
+			).toBe(false);
+		});
+
+		it("should reject a tampered body", () => {
+			expect(
+				verifyWebhookSignature(
+					{ body: body.replace("page-1", "page-2"), signature: sign(body) },
+					"secret_token",
+				),
+			).toBe(false);
+		});
+
+		it("should reject missing or malformed signatures", () => {
+			expect(
+				verifyWebhookSignature({ body, signature: null }, "secret_token"),
+			).toBe(false);
+			expect(
+				verifyWebhookSignature(
+					{ body, signature: "sha256=abc" },
+					"secret_token",
+				),
+			).toBe(false);
+		});
+	});
+
+	describe("extractSignedRequests", () => {
+		it("should read the raw body and signature from the client payload", () => {
+			const requests = extractSignedRequests({
+				client_payload: { body: "{}", signature: "sha256=abc" },
+			});
+			expect(requests).toEqual([{ body: "{}", signature: "sha256=abc" }]);
+		});
+
+		it("should read batches of forwarded requests", () => {
+			const requests = extractSignedRequests({
+				client_payload: {
+					requests: [
+						{ body: "{}", signature: "sha256=abc" },
+						{ body: "[]", signature: "sha256=def" },
+					],
+				},
+			});
+			expect(requests).toHaveLength(2);
+			expect(requests[1]).toEqual({ body: "[]", signature: "sha256=def" });
+		});
+
+		it("should return nothing when there is no raw body", () => {
+			expect(extractSignedRequests({ client_payload: { id: "page" } })).toEqual(
+				[],
+			);
+		});
+	});
+
+	describe("isWebhookFresh", () => {
+		const now = Date.parse("2024-01-01T12:00:00.000Z");
+
+		it("should accept recent payloads", () => {
+			const payload = {
+				timestamp: "2024-01-01T11:58:00.000Z",
+			} as NotionWebhookPayload;
+			expect(isWebhookFresh(payload, 300, now)).toBe(true);
+		});
+
+		it("should reject payloads older than the maximum age", () => {
+			const payload = {
+				timestamp: "2024-01-01T11:50:00.000Z",
+			} as NotionWebhookPayload;
+			expect(isWebhookFresh(payload, 300, now)).toBe(false);
+		});
+
+		it("should reject payloads without a timestamp", () => {
+			expect(isWebhookFresh({} as NotionWebhookPayload, 300, now)).toBe(false);
+		});
+	});
+
+	describe("unwrapDispatchPayload", () => {
+		const event = {
+			type: "page.deleted",
+			timestamp: "2024-01-01T00:00:00.000Z",
+			entity: { id: "page-1", type: "page" },
+		};
+
+		it("should parse a raw body forwarded as a string", () => {
+			expect(
+				unwrapDispatchPayload({
+					action: "notion-update",
+					client_payload: { body: JSON.stringify(event) },
+				}),
+			).toEqual(event);
+		});
+
+		it("should use a client payload forwarded as JSON", () => {
+			expect(unwrapDispatchPayload({ client_payload: event })).toEqual(event);
+		});
+
+		it("should leave payloads that aren't dispatch events alone", () => {
+			expect(unwrapDispatchPayload(event)).toBe(event);
+		});
+	});
+
+	describe("parseWebhookEvent", () => {
+		it("should recognize verification challenges", () => {
+			expect(parseWebhookEvent({ verification_token: "secret_abc" })).toEqual({
+				type: "verification",
+				verification_token: "secret_abc",
+			});
+		});
+
+		it("should read legacy payloads as page content updates", () => {
+			const event = parseWebhookEvent({
+				object: "event",
+				event_ts: "2024-01-01T00:00:00.000Z",
+				data: { object: "page", id: "page-1" },
+			});
+
+			expect(event).toEqual({
+				type: "page.content_updated",
+				timestamp: "2024-01-01T00:00:00.000Z",
+				entity: { id: "page-1", type: "page" },
+			});
+		});
+
+		it("should ignore unsupported event types", () => {
+			expect(
+				parseWebhookEvent({
+					type: "comment.created",
+					entity: { id: "comment-1", type: "comment" },
+				}),
+			).toBeNull();
+		});
+
+		it("should reject events without an entity ID", () => {
+			expect(
+				parseWebhookEvent({ type: "page.deleted", entity: {} }),
+			).toBeNull();
+			expect(
+				parseWebhookEvent({
+					type: "page.created",
+					timestamp: "2024-01-01T00:00:00.000Z",
+				}),
+			).toBeNull();
+			expect(
+				parseWebhookEvent({
+					type: "page.content_updated",
+					entity: { id: "page-1", type: "page" },
+					entities: [{ type: "page" }],
+				}),
+			).toBeNull();
+		});
+	});
+
+	describe("routeWebhookEvent", () => {
+		const base = {
+			timestamp: "2024-01-01T00:00:00.000Z",
+			entity: { id: "page-1", type: "page" as const },
+		};
+
+		it("should re-sync pages whose content or properties changed", () => {
+			for (const type of [
+				"page.content_updated",
+				"page.properties_updated",
+			] as const) {
+				expect(routeWebhookEvent({ ...base, type })).toEqual([
+					{ type: "sync-page", pageId: "page-1" },
+				]);
+			}
+		});
+
+		it("should move pages under their new page parent", () => {
+			const event: NotionWebhookEvent = {
+				...base,
+				type: "page.moved",
+				data: { parent: { id: "parent-1", type: "page" } },
+			};
+
+			expect(routeWebhookEvent(event)).toEqual([
+				{ type: "move-page", pageId: "page-1", parentId: "parent-1" },
+			]);
+		});
+
+		it("should not use block parents of moved pages", () => {
+			const event: NotionWebhookEvent = {
+				...base,
+				type: "page.moved",
+				data: { parent: { id: "block-1", type: "block" } },
+			};
+
+			expect(routeWebhookEvent(event)).toEqual([
+				{ type: "move-page", pageId: "page-1", parentId: undefined },
+			]);
+		});
+
+		it("should delete pages and databases removed in Notion", () => {
+			expect(routeWebhookEvent({ ...base, type: "page.deleted" })).toEqual([
+				{ type: "delete-page", pageId: "page-1" },
+			]);
+			expect(
+				routeWebhookEvent({
+					...base,
+					type: "database.deleted",
+					entity: { id: "database-1", type: "database" },
+				}),
+			).toEqual([{ type: "delete-page", pageId: "database-1" }]);
+		});
+
+		it("should re-sync databases", () => {
+			expect(
+				routeWebhookEvent({
+					...base,
+					type: "database.schema_updated",
+					entity: { id: "database-1", type: "database" },
+				}),
+			).toEqual([{ type: "sync-database", databaseId: "database-1" }]);
+		});
+
+		it("should route every entity of a batched event once", () => {
+			const event: NotionWebhookEvent = {
+				...base,
+				type: "page.content_updated",
+				entities: [
+					{ id: "page-1", type: "page" },
+					{ id: "page-2", type: "page" },
+					{ id: "page-1", type: "page" },
+				],
+			};
+
+			expect(routeWebhookEvent(event)).toEqual([
+				{ type: "sync-page", pageId: "page-1" },
+				{ type: "sync-page", pageId: "page-2" },
+			]);
+		});
+
+		it("should pass verification challenges through", () => {
+			expect(
+				routeWebhookEvent({
+					type: "verification",
+					verification_token: "secret_abc",
+				}),
+			).toEqual([{ type: "verify", verificationToken: "secret_abc" }]);
+		});
+	});
+
+	describe("parseWebhookEvents", () => {
+		const event = {
+			type: "page.content_updated",
+			timestamp: "2024-01-01T00:00:00.000Z",
+			entity: { id: "page-1", type: "page" },
+		};
+
+		it("should read arrays and event lists", () => {
+			expect(parseWebhookEvents([event, event])).toHaveLength(2);
+			expect(parseWebhookEvents({ events: [event] })).toEqual([event]);
+		});
+
+		it("should read lists of page IDs", () => {
+			const events = parseWebhookEvents({ page_ids: ["page-1", "page-2"] });
+			expect(events.map((item) => item.type)).toEqual([
+				"page.content_updated",
+				"page.content_updated",
+			]);
+		});
+
+		it("should skip events it can't read", () => {
+			expect(parseWebhookEvents([event, { type: "comment.created" }])).toEqual([
+				event,
+			]);
+		});
+	});
+
+	describe("mergeWebhookEvents", () => {
+		const at = (minute: number) =>
+			`2024-01-01T00:${String(minute).padStart(2, "0")}:00.000Z`;
+
+		it("should keep one action per page", () => {
+			const actions = mergeWebhookEvents([
+				{
+					type: "page.content_updated",
+					timestamp: at(1),
+					entity: { id: "page-1", type: "page" },
+				},
+				{
+					type: "page.properties_updated",
+					timestamp: at(2),
+					entity: { id: "PAGE1", type: "page" },
+				},
+			]);
+
+			expect(actions).toEqual([{ type: "sync-page", pageId: "PAGE1" }]);
+		});
+
+		it("should apply the latest event of each page", () => {
+			const actions = mergeWebhookEvents([
+				{
+					type: "page.deleted",
+					timestamp: at(3),
+					entity: { id: "page-1", type: "page" },
+				},
+				{
+					type: "page.content_updated",
+					timestamp: at(1),
+					entity: { id: "page-1", type: "page" },
+				},
+			]);
+
+			expect(actions).toEqual([{ type: "delete-page", pageId: "page-1" }]);
+		});
+
+		it("should keep a move when the page is edited afterwards", () => {
+			const actions = mergeWebhookEvents([
+				{
+					type: "page.moved",
+					timestamp: at(1),
+					entity: { id: "page-1", type: "page" },
+					data: { parent: { id: "parent-1", type: "page" } },
+				},
+				{
+					type: "page.content_updated",
+					timestamp: at(2),
+					entity: { id: "page-1", type: "page" },
+				},
+			]);
+
+			expect(actions).toEqual([
+				{ type: "move-page", pageId: "page-1", parentId: "parent-1" },
+			]);
+		});
+	});
 });
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { parseMarkdown } from "../src/markdown-parser";
+import { planWikiEdit, type RenderedBlock } from "../src/wiki-edits";
+
+const title: RenderedBlock = {
+	description: "the page title",
+	writable: false,
+	rendered: parseMarkdown("# Guide"),
+};
+
+const block = (
+	blockId: string,
+	markdown: string,
+	writable = true,
+): RenderedBlock => ({
+	blockId,
+	description: "a paragraph block",
+	writable,
+	rendered: parseMarkdown(markdown),
+});
+
+describe("planWikiEdit", () => {
+	const current = [title, block("a", "First"), block("b", "Second")];
+
+	it("should update changed blocks in place", () => {
+		const plan = planWikiEdit(
+			current,
+			parseMarkdown("# Guide\n\nFirst\n\nSecond, fixed"),
+		);
+
+		expect(plan).toEqual({
+			updates: [{ blockId: "b", block: parseMarkdown("Second, fixed")[0] }],
+			deleteBlockIds: [],
+			insertions: [],
+		});
+	});
+
+	it("should insert new blocks after the block they follow", () => {
+		const plan = planWikiEdit(
+			current,
+			parseMarkdown("# Guide\n\nFirst\n\n- new\n\nSecond"),
+		);
+
+		expect(plan).toEqual({
+			updates: [],
+			deleteBlockIds: [],
+			insertions: [{ afterBlockId: "a", blocks: parseMarkdown("- new") }],
+		});
+	});
+
+	it("should delete removed blocks and replace blocks that changed type", () => {
+		const plan = planWikiEdit(current, parseMarkdown("# Guide\n\n## First"));
+
+		expect(plan).toEqual({
+			updates: [],
+			deleteBlockIds: ["a", "b"],
+			insertions: [{ blocks: parseMarkdown("## First") }],
+		});
+	});
+
+	it("should report edits to blocks that can't be written back", () => {
+		const plan = planWikiEdit(
+			[title, block("a", "| a |\n| --- |", false), block("b", "Second")],
+			parseMarkdown("# Guide\n\n| b |\n| --- |\n\nSecond"),
+		);
+
+		expect(plan).toEqual({
+			conflict:
+				"the wiki edit changes a paragraph block, which can't be written back to Notion",
+		});
+	});
+
+	it("should report new Markdown that can't be written to Notion", () => {
+		const plan = planWikiEdit(
+			current,
+			parseMarkdown("# Guide\n\nFirst\n\n![x](x.png)\n\nSecond"),
+		);
+
+		expect(plan).toEqual({
+			conflict:
+				"the wiki edit adds Markdown that can't be written to Notion: ![x](x.png)",
+		});
+	});
+
+	it("should prepend by rewriting the first block and adding it again after", () => {
+		const plan = planWikiEdit(
+			current,
+			parseMarkdown("# Guide\n\nNew\n\n- item\n\nFirst\n\nSecond"),
+		);
+
+		expect(plan).toEqual({
+			updates: [{ blockId: "a", block: parseMarkdown("New")[0] }],
+			deleteBlockIds: [],
+			insertions: [
+				{ afterBlockId: "a", blocks: parseMarkdown("- item\n\nFirst") },
+			],
+		});
+	});
+
+	it("should report content above a block it can't rewrite", () => {
+		const edited = parseMarkdown("# Guide\n\n- new\n\nFirst\n\nSecond");
+
+		expect(planWikiEdit(current, edited)).toEqual({
+			conflict:
+				"the wiki edit adds content above a paragraph block, which can't be moved in Notion",
+		});
+		expect(
+			planWikiEdit(
+				[title, block("a", "First", false), block("b", "Second")],
+				parseMarkdown("# Guide\n\nNew\n\nFirst\n\nSecond"),
+			),
+		).toEqual({
+			conflict:
+				"the wiki edit adds content above a paragraph block, which can't be moved in Notion",
+		});
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { SyncManifest } from "../src/sync-manifest";
+import {
+	buildFooter,
+	buildSidebar,
+	isTopLevelPage,
+} from "../src/wiki-navigation";
+
+const createManifest = (
+	pages: { pageId: string; title: string; childPageIds?: string[] }[],
+) => {
+	const manifest = new SyncManifest();
+	for (const page of pages) {
+		manifest.set({
+			pageId: page.pageId,
+			title: page.title,
+			wikiPageName: page.title.toLowerCase().replace(/\s+/g, "-"),
+			lastEditedTime: "2024-01-01T00:00:00.000Z",
+			contentHash: "hash",
+			childPageIds: page.childPageIds ?? [],
+		});
+	}
+	return manifest;
+};
+
+describe("wiki navigation", () => {
+	describe("buildSidebar", () => {
+		it("should nest pages in their Notion order", () => {
+			const manifest = createManifest([
+				{ pageId: "root", title: "Engineering", childPageIds: ["b", "a"] },
+				{ pageId: "a", title: "Alpha" },
+				{ pageId: "b", title: "Beta", childPageIds: ["c"] },
+				{ pageId: "c", title: "Gamma" },
+			]);
+
+			expect(buildSidebar(manifest)).toBe(
+				"- [Engineering](engineering)\n  - [Beta](beta)\n    - [Gamma](gamma)\n  - [Alpha](alpha)\n",
+			);
+		});
+
+		it("should list separate roots alphabetically", () => {
+			const manifest = createManifest([
+				{ pageId: "2", title: "Product" },
+				{ pageId: "1", title: "On-call" },
+			]);
+
+			expect(buildSidebar(manifest)).toBe(
+				"- [On-call](on-call)\n- [Product](product)\n",
+			);
+		});
+
+		it("should not loop on pages that reference each other", () => {
+			const manifest = createManifest([
+				{ pageId: "root", title: "Root", childPageIds: ["a"] },
+				{ pageId: "a", title: "A", childPageIds: ["b"] },
+				{ pageId: "b", title: "B", childPageIds: ["a"] },
+			]);
+
+			expect(buildSidebar(manifest)).toBe(
+				"- [Root](root)\n  - [A](a)\n    - [B](b)\n",
+			);
+		});
+
+		it("should escape Markdown in titles", () => {
+			const manifest = createManifest([{ pageId: "a", title: "[Draft] *C#*" }]);
+
+			expect(buildSidebar(manifest)).toBe(
+				"- [\\[Draft\\] \\*C#\\*]([draft]-*c#*)\n",
+			);
+		});
+
+		it("should list archived pages last", () => {
+			const manifest = createManifest([{ pageId: "a", title: "Alpha" }]);
+			manifest.setArchivedPage({
+				wikiPageName: "Archived-old-page",
+				title: "Old Page",
+				archivedAt: "2024-01-01",
+			});
+
+			expect(buildSidebar(manifest)).toBe(
+				"- [Alpha](alpha)\n- Archived\n  - [Old Page](Archived-old-page)\n",
+			);
+		});
+	});
+
+	describe("isTopLevelPage", () => {
+		it("should detect pages without a synced parent", () => {
+			const manifest = createManifest([
+				{ pageId: "root", title: "Root", childPageIds: ["a"] },
+				{ pageId: "a", title: "A" },
+			]);
+
+			expect(isTopLevelPage(manifest, "root")).toBe(true);
+			expect(isTopLevelPage(manifest, "a")).toBe(false);
+		});
+	});
+
+	describe("buildFooter", () => {
+		it("should include the sync time and a link to the run", () => {
+			const footer = buildFooter(
+				new Date("2024-03-01T09:30:00Z"),
+				"123",
+				"https://github.com/owner/repo/actions/runs/123",
+			);
+
+			expect(footer).toBe(
+				"_Last synced from Notion at 2024-03-01 09:30 UTC ([run #123](https://github.com/owner/repo/actions/runs/123))_\n",
+			);
+		});
+
+		it("should omit the run outside of GitHub Actions", () => {
+			expect(buildFooter(new Date("2024-03-01T09:30:00Z"))).toBe(
+				"_Last synced from Notion at 2024-03-01 09:30 UTC_\n",
+			);
+		});
+	});
+});
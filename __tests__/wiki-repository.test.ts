@@ -0,0 +1,255 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PushRejectedError, WikiRepository } from "../src/wiki-repository";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync("git", args, { cwd, encoding: "utf8" });
+
+describe("WikiRepository", () => {
+	let tempDirectory: string;
+	let remoteDirectory: string;
+	const originalRunnerTemp = process.env.RUNNER_TEMP;
+
+	const seedRemote = (files: Record<string, string>) => {
+		const seedDirectory = path.join(tempDirectory, "seed");
+		fs.mkdirSync(seedDirectory);
+		git(seedDirectory, "init", "--quiet", "--initial-branch", "master");
+		for (const [name, content] of Object.entries(files)) {
+			fs.writeFileSync(path.join(seedDirectory, name), content);
+		}
+		git(seedDirectory, "add", "--all");
+		git(
+			seedDirectory,
+			"-c",
+			"user.name=Seed",
+			"-c",
+			"user.email=seed@example.com",
+			"commit",
+			"--quiet",
+			"-m",
+			"Initial page",
+		);
+		git(seedDirectory, "push", "--quiet", remoteDirectory, "master");
+	};
+
+	beforeEach(() => {
+		tempDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-test-"));
+		remoteDirectory = path.join(tempDirectory, "remote.wiki.git");
+		git(
+			tempDirectory,
+			"init",
+			"--quiet",
+			"--bare",
+			"--initial-branch",
+			"master",
+			remoteDirectory,
+		);
+		process.env.RUNNER_TEMP = tempDirectory;
+	});
+
+	afterEach(() => {
+		process.env.RUNNER_TEMP = originalRunnerTemp;
+		fs.rmSync(tempDirectory, { recursive: true, force: true });
+	});
+
+	it("should push all written pages as a single commit", async () => {
+		seedRemote({ "Home.md": "# Home" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+		await wiki.writeFile("notion-guide.md", "# Guide");
+		await wiki.writeFile("notion-faq.md", "# FAQ");
+		await wiki.writeFile("assets/logo.png", Buffer.from([0x89, 0x50]));
+		const pushed = await wiki.commitAndPush("Sync 2 page(s) from Notion");
+
+		expect(pushed).toBe(true);
+		expect(git(remoteDirectory, "rev-list", "--count", "master").trim()).toBe(
+			"2",
+		);
+		expect(git(remoteDirectory, "log", "-1", "--format=%s").trim()).toBe(
+			"Sync 2 page(s) from Notion",
+		);
+		expect(git(remoteDirectory, "show", "master:notion-guide.md").trim()).toBe(
+			"# Guide",
+		);
+	});
+
+	it("should report added, modified and deleted files", async () => {
+		seedRemote({ "Home.md": "# Home", "old.md": "# Old" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+		await wiki.writeFile("Home.md", "# Home v2");
+		await wiki.writeFile("new.md", "# New");
+		await wiki.deleteFile("old.md");
+
+		const changes = await wiki.getChanges();
+		expect(changes).toEqual([
+			{ status: "modified", path: "Home.md" },
+			{ status: "added", path: "new.md" },
+			{ status: "deleted", path: "old.md" },
+		]);
+	});
+
+	it("should diff changed files against the cloned wiki", async () => {
+		seedRemote({ "Home.md": "# Home\n" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+		await wiki.writeFile("Home.md", "# Home v2\n");
+		await wiki.getChanges();
+
+		const diff = await wiki.getDiff("Home.md");
+		expect(diff).toContain("--- a/Home.md");
+		expect(diff).toContain("-# Home\n+# Home v2");
+	});
+
+	it("should not commit when nothing changed", async () => {
+		seedRemote({ "Home.md": "# Home" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+		await wiki.writeFile("Home.md", "# Home");
+
+		expect(await wiki.commitAndPush("No-op")).toBe(false);
+		expect(git(remoteDirectory, "rev-list", "--count", "master").trim()).toBe(
+			"1",
+		);
+	});
+
+	it("should reject pushes when another run pushed first", async () => {
+		seedRemote({ "Home.md": "# Home" });
+		const first = new WikiRepository({ remoteUrl: remoteDirectory });
+		const second = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await first.clone();
+		await second.clone();
+		await first.writeFile("first.md", "# First");
+		await second.writeFile("second.md", "# Second");
+		await first.commitAndPush("First run");
+
+		await expect(second.commitAndPush("Second run")).rejects.toBeInstanceOf(
+			PushRejectedError,
+		);
+		expect(git(remoteDirectory, "log", "-1", "--format=%s").trim()).toBe(
+			"First run",
+		);
+	});
+
+	it("should read existing pages from the clone", async () => {
+		seedRemote({ "Home.md": "# Home" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+
+		expect(await wiki.readFile("Home.md")).toBe("# Home");
+		expect(await wiki.readFile("missing.md")).toBeNull();
+	});
+
+	it("should refuse to write outside the working tree", async () => {
+		seedRemote({ "Home.md": "# Home" });
+		const wiki = new WikiRepository({ remoteUrl: remoteDirectory });
+
+		await wiki.clone();
+
+		await expect(wiki.writeFile("../escape.md", "nope")).rejects.toThrow(
+			"Refusing to write outside the wiki",
+		);
+	});
+
+	it("should write into a directory on a new branch", async () => {
+		seedRemote({ "README.md": "# Repo" });
+		const repository = new WikiRepository({
+			remoteUrl: remoteDirectory,
+			branch: "notion-sync",
+			createBranch: true,
+			directory: "docs",
+		});
+
+		await repository.clone();
+		await repository.writeFile("notion-guide.md", "# Guide");
+
+		expect(await repository.getChanges()).toEqual([
+			{ status: "added", path: "notion-guide.md" },
+		]);
+		expect(await repository.commitAndPush("Sync 1 page(s) from Notion")).toBe(
+			true,
+		);
+		expect(
+			git(remoteDirectory, "show", "notion-sync:docs/notion-guide.md").trim(),
+		).toBe("# Guide");
+		expect(git(remoteDirectory, "rev-list", "--count", "master").trim()).toBe(
+			"1",
+		);
+	});
+
+	it("should start a new branch from the base branch", async () => {
+		seedRemote({ "README.md": "# Repo" });
+		const seedDirectory = path.join(tempDirectory, "seed");
+		git(
+			seedDirectory,
+			"-c",
+			"user.name=Seed",
+			"-c",
+			"user.email=seed@example.com",
+			"commit",
+			"--quiet",
+			"--allow-empty",
+			"-m",
+			"Release",
+		);
+		git(seedDirectory, "push", "--quiet", remoteDirectory, "HEAD:release");
+		const repository = new WikiRepository({
+			remoteUrl: remoteDirectory,
+			branch: "notion-sync",
+			createBranch: true,
+			baseBranch: "release",
+			directory: "docs",
+		});
+
+		await repository.clone();
+		await repository.writeFile("notion-guide.md", "# Guide");
+		await repository.commitAndPush("Sync 1 page(s) from Notion");
+
+		expect(
+			git(remoteDirectory, "log", "--format=%s", "notion-sync").trim(),
+		).toBe("Sync 1 page(s) from Notion\nRelease\nInitial page");
+	});
+
+	it("should continue an existing branch", async () => {
+		seedRemote({ "README.md": "# Repo" });
+		const options = {
+			remoteUrl: remoteDirectory,
+			branch: "notion-sync",
+			createBranch: true,
+			directory: "docs",
+		};
+		const first = new WikiRepository(options);
+		await first.clone();
+		await first.writeFile("notion-guide.md", "# Guide");
+		await first.commitAndPush("First run");
+
+		const second = new WikiRepository(options);
+		await second.clone();
+		expect(await second.readFile("notion-guide.md")).toBe("# Guide");
+		await second.writeFile("notion-faq.md", "# FAQ");
+		await second.commitAndPush("Second run");
+
+		expect(
+			git(remoteDirectory, "rev-list", "--count", "notion-sync").trim(),
+		).toBe("3");
+	});
+
+	it("should fail clearly when the wiki repository does not exist", async () => {
+		const wiki = new WikiRepository({
+			remoteUrl: path.join(tempDirectory, "missing.wiki.git"),
+		});
+
+		await expect(wiki.clone()).rejects.toThrow(
+			"Failed to clone wiki repository",
+		);
+	});
+});
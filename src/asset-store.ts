@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+import * as core from "@actions/core";
+
+export type AssetWriter = (assetPath: string, content: Buffer) => Promise<void>;
+
+export type AssetDownloader = (
+	url: string,
+) => Promise<{ content: Buffer; contentType?: string }>;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+	"image/png": ".png",
+	"image/jpeg": ".jpg",
+	"image/gif": ".gif",
+	"image/webp": ".webp",
+	"image/svg+xml": ".svg",
+	"application/pdf": ".pdf",
+	"video/mp4": ".mp4",
+	"audio/mpeg": ".mp3",
+};
+
+export async function downloadAsset(url: string) {
+	const response = await fetch(url);
+
+	if (!response.ok) {
+		throw new Error(
+			`Failed to download asset: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	return {
+		content: Buffer.from(await response.arrayBuffer()),
+		contentType: response.headers.get("content-type") ?? undefined,
+	};
+}
+
+/**
+ * Copies Notion-hosted files into the wiki under content-hash filenames.
+ * Notion file URLs expire after an hour, so pages must reference the
+ * committed copy rather than the original URL.
+ */
+export class AssetStore {
+	private pathsByUrl = new Map<string, string>();
+	private storedHashes = new Set<string>();
+
+	constructor(
+		private writeAsset: AssetWriter,
+		private assetsDirectory = "assets",
+		private download: AssetDownloader = downloadAsset,
+	) {}
+
+	/**
+	 * Downloads the asset and returns the wiki-relative path it was stored at.
+	 * Identical content is only written once, whatever URL it came from.
+	 */
+	async store(url: string): Promise<string> {
+		const knownPath = this.pathsByUrl.get(url);
+		if (knownPath) {
+			return knownPath;
+		}
+
+		const { content, contentType } = await this.download(url);
+		const hash = createHash("sha256").update(content).digest("hex");
+		const assetPath = `${this.assetsDirectory}/${hash.slice(0, 16)}${this.getExtension(url, contentType)}`;
+
+		if (!this.storedHashes.has(hash)) {
+			await this.writeAsset(assetPath, content);
+			this.storedHashes.add(hash);
+			core.info(`Stored asset: ${assetPath}`);
+		}
+
+		this.pathsByUrl.set(url, assetPath);
+		return assetPath;
+	}
+
+	private getExtension(url: string, contentType?: string): string {
+		try {
+			const extension = path.extname(new URL(url).pathname).toLowerCase();
+			if (/^\.[a-z0-9]{1,5}$/.test(extension)) {
+				return extension;
+			}
+		} catch (_error) {
+			// Fall back to the content type below
+		}
+
+		const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+		return (mimeType && CONTENT_TYPE_EXTENSIONS[mimeType]) || "";
+	}
+}
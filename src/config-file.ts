@@ -0,0 +1,281 @@
+import { readFile } from "node:fs/promises";
+import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { NotionSyncConfig, SyncTarget } from "./notion-sync";
+import { parsePageRules } from "./page-filter";
+import { PAGE_NAMING_STRATEGIES, type PageNamingStrategy } from "./page-naming";
+import { OUTPUT_FORMATS, type OutputFormat } from "./renderer";
+
+/**
+ * Settings a root of the config file sets for itself. Whatever a root leaves
+ * out comes from the action's inputs.
+ */
+export type SyncRootOptions = Pick<
+	NotionSyncConfig,
+	| "wikiPathPrefix"
+	| "maxDepth"
+	| "target"
+	| "docsDirectory"
+	| "pullRequestBranch"
+	| "pullRequestBase"
+	| "outputFormat"
+	| "pageNaming"
+	| "databaseProperties"
+	| "include"
+	| "exclude"
+>;
+
+/**
+ * A Notion page synced along with everything beneath it.
+ */
+export interface SyncRoot {
+	pageId: string;
+	/** Names the root in logs and the job summary, the page ID when unset */
+	name: string;
+	options: SyncRootOptions;
+}
+
+/**
+ * Raised when the config file can't be read or doesn't match the schema,
+ * with every problem found rather than just the first.
+ */
+export class ConfigFileError extends Error {
+	readonly problems: string[];
+
+	constructor(file: string, problems: string[]) {
+		super(
+			`Invalid config file ${file}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`,
+		);
+		this.name = "ConfigFileError";
+		this.problems = problems;
+	}
+}
+
+/**
+ * Checks one key of a root and stores it in the options. Returns what is
+ * wrong with the value, e.g. `roots[0].max-depth must be a positive integer`.
+ */
+type RootField = (
+	value: unknown,
+	options: SyncRootOptions,
+	location: string,
+) => string | null;
+
+const ROOT_FIELDS: Record<string, RootField> = {
+	"wiki-path-prefix": (value, options, location) => {
+		if (typeof value !== "string") {
+			return `${location} must be a string`;
+		}
+		options.wikiPathPrefix = value;
+		return null;
+	},
+	"max-depth": (value, options, location) => {
+		if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+			return `${location} must be a positive integer`;
+		}
+		options.maxDepth = value;
+		return null;
+	},
+	target: (value, options, location) => {
+		if (value !== "wiki" && value !== "repo") {
+			return `${location} must be one of: wiki, repo`;
+		}
+		options.target = value as SyncTarget;
+		return null;
+	},
+	"docs-directory": (value, options, location) => {
+		const directory =
+			typeof value === "string" ? normalizeDocsDirectory(value) : null;
+		if (!directory) {
+			return `${location} must be a directory within the repository`;
+		}
+		options.docsDirectory = directory;
+		return null;
+	},
+	"pull-request-branch": (value, options, location) => {
+		if (typeof value !== "string" || !value) {
+			return `${location} must be a branch name`;
+		}
+		options.pullRequestBranch = value;
+		return null;
+	},
+	"pull-request-base": (value, options, location) => {
+		if (typeof value !== "string" || !value) {
+			return `${location} must be a branch name`;
+		}
+		options.pullRequestBase = value;
+		return null;
+	},
+	"output-format": (value, options, location) => {
+		if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+			return `${location} must be one of: ${OUTPUT_FORMATS.join(", ")}`;
+		}
+		options.outputFormat = value as OutputFormat;
+		return null;
+	},
+	"page-naming": (value, options, location) => {
+		if (!PAGE_NAMING_STRATEGIES.includes(value as PageNamingStrategy)) {
+			return `${location} must be one of: ${PAGE_NAMING_STRATEGIES.join(", ")}`;
+		}
+		options.pageNaming = value as PageNamingStrategy;
+		return null;
+	},
+	"database-properties": (value, options, location) => {
+		if (!isStringList(value)) {
+			return `${location} must be a list of property names`;
+		}
+		options.databaseProperties = value;
+		return null;
+	},
+	include: (value, options, location) => {
+		const rules = parsePageRules(value, location);
+		if (typeof rules === "string") {
+			return rules;
+		}
+		options.include = rules;
+		return null;
+	},
+	exclude: (value, options, location) => {
+		const rules = parsePageRules(value, location);
+		if (typeof rules === "string") {
+			return rules;
+		}
+		options.exclude = rules;
+		return null;
+	},
+};
+
+const ROOT_KEYS = ["page-id", "name", ...Object.keys(ROOT_FIELDS)];
+
+/**
+ * Reads the roots from a YAML or JSON config file. `file` is relative to
+ * `workspace`, the checkout of the repository.
+ */
+export async function loadConfigFile(
+	file: string,
+	workspace: string,
+): Promise<SyncRoot[]> {
+	let content: string;
+	try {
+		content = await readFile(path.resolve(workspace, file), "utf8");
+	} catch (error) {
+		throw new ConfigFileError(file, [
+			`could not be read: ${error instanceof Error ? error.message : error}`,
+		]);
+	}
+
+	return parseConfigFile(content, file);
+}
+
+/**
+ * Parses and validates the content of a config file, JSON when the file name
+ * ends in `.json` and YAML otherwise.
+ */
+export function parseConfigFile(content: string, file: string): SyncRoot[] {
+	let data: unknown;
+	try {
+		data = file.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+	} catch (error) {
+		throw new ConfigFileError(file, [
+			`is not valid ${file.endsWith(".json") ? "JSON" : "YAML"}: ${error instanceof Error ? error.message : error}`,
+		]);
+	}
+
+	if (!isRecord(data)) {
+		throw new ConfigFileError(file, ['must be a mapping with a "roots" list']);
+	}
+
+	const problems = Object.keys(data)
+		.filter((key) => key !== "roots")
+		.map((key) => `unknown key "${key}", expected: roots`);
+
+	if (!Array.isArray(data.roots) || data.roots.length === 0) {
+		problems.push("roots must be a non-empty list");
+		throw new ConfigFileError(file, problems);
+	}
+
+	const roots: SyncRoot[] = [];
+	const rootIndexes = new Map<string, number>();
+	for (const [index, entry] of data.roots.entries()) {
+		const location = `roots[${index}]`;
+		if (!isRecord(entry)) {
+			problems.push(`${location} must be a mapping`);
+			continue;
+		}
+
+		const pageId = entry["page-id"];
+		if (typeof pageId !== "string" || !pageId.trim()) {
+			problems.push(`${location}.page-id is required`);
+		} else {
+			const normalizedId = pageId.trim().replace(/-/g, "").toLowerCase();
+			const duplicate = rootIndexes.get(normalizedId);
+			if (duplicate !== undefined) {
+				problems.push(
+					`${location}.page-id ${pageId} is already listed as roots[${duplicate}]`,
+				);
+			}
+			rootIndexes.set(normalizedId, index);
+		}
+
+		const name = entry.name;
+		if (name !== undefined && typeof name !== "string") {
+			problems.push(`${location}.name must be a string`);
+		}
+
+		const options: SyncRootOptions = {};
+		for (const [key, value] of Object.entries(entry)) {
+			const field = ROOT_FIELDS[key];
+			if (!field) {
+				if (!ROOT_KEYS.includes(key)) {
+					problems.push(
+						`${location}: unknown key "${key}", expected one of: ${ROOT_KEYS.join(", ")}`,
+					);
+				}
+				continue;
+			}
+
+			const problem = field(value, options, `${location}.${key}`);
+			if (problem) {
+				problems.push(problem);
+			}
+		}
+
+		if (typeof pageId === "string" && pageId.trim()) {
+			roots.push({
+				pageId: pageId.trim(),
+				name: typeof name === "string" && name ? name : pageId.trim(),
+				options,
+			});
+		}
+	}
+
+	if (problems.length > 0) {
+		throw new ConfigFileError(file, problems);
+	}
+	return roots;
+}
+
+/**
+ * Strips leading `./` and trailing slashes. Returns null for directories
+ * outside the repository.
+ */
+export function normalizeDocsDirectory(directory: string): string | null {
+	const normalized = directory.replace(/^\.?\/+|\/+$/g, "");
+	if (
+		!normalized ||
+		normalized.split("/").some((segment) => segment === "..")
+	) {
+		return null;
+	}
+	return normalized;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
@@ -1,11 +1,256 @@
 import * as core from "@actions/core";
-import { NotionSync } from "./notion-sync";
+import { APIErrorCode, isNotionClientError } from "@notionhq/client";
+import { parse as parseYaml } from "yaml";
 import {
-	extractPageId,
+	loadConfigFile,
+	normalizeDocsDirectory,
+	type SyncRoot,
+} from "./config-file";
+import { buildJobSummary, createPageUrlBuilder } from "./job-summary";
+import {
+	type DatabaseQueryFilter,
+	DEFAULT_DOCS_DIRECTORY,
+	DEFAULT_PULL_REQUEST_BRANCH,
+	mergeSyncResults,
+	NotionSync,
+	type NotionSyncConfig,
+	type PruneMode,
+	type SyncResult,
+	type SyncTarget,
+} from "./notion-sync";
+import { type PageRule, parsePageRules } from "./page-filter";
+import { PAGE_NAMING_STRATEGIES, type PageNamingStrategy } from "./page-naming";
+import { createRenderer, OUTPUT_FORMATS, type OutputFormat } from "./renderer";
+import {
+	extractSignedRequests,
+	getActionTargetId,
 	getWebhookPayloadFromEnvironment,
-	validateWebhookPayload,
+	isWebhookFresh,
+	mergeWebhookEvents,
+	parseWebhookEvents,
+	unwrapDispatchPayload,
+	verifyWebhookSignature,
+	type WebhookAction,
 } from "./webhook-handler";
 
+/**
+ * Verifies the Notion signature of every request carried by a
+ * `repository_dispatch` event and returns the Notion payloads.
+ */
+function verifyDispatchedWebhooks(
+	verificationToken: string,
+	maxAgeSeconds: number,
+): unknown[] {
+	const requests = extractSignedRequests(getWebhookPayloadFromEnvironment());
+	if (requests.length === 0) {
+		throw new Error(
+			"Webhook verification failed: the event has no raw Notion body to verify",
+		);
+	}
+
+	// The signature input can only stand in for a single forwarded request
+	const signatureInput =
+		requests.length === 1 ? core.getInput("webhook-signature") : "";
+
+	return requests.map((request) => {
+		const signature = signatureInput || request.signature;
+		if (!verifyWebhookSignature({ ...request, signature }, verificationToken)) {
+			throw new Error(
+				"Webhook verification failed: signature does not match the webhook-verification-token",
+			);
+		}
+
+		const payload = JSON.parse(request.body);
+		if (!isWebhookFresh(payload, maxAgeSeconds)) {
+			throw new Error(
+				`Webhook verification failed: payload is older than ${maxAgeSeconds} seconds`,
+			);
+		}
+
+		return payload;
+	});
+}
+
+/**
+ * When the action fails the workflow step: as soon as any page failed, only
+ * when nothing could be synced, or never.
+ */
+type FailOn = "any-error" | "all-errors" | "never";
+
+function getBooleanInput(name: string, defaultValue: boolean): boolean {
+	const value = core.getInput(name);
+	return value ? core.getBooleanInput(name) : defaultValue;
+}
+
+/**
+ * One sync of the run: a root of the config file, or the pages the inputs or
+ * webhook name when there is no config file.
+ */
+interface SyncJob {
+	root?: SyncRoot;
+	config: NotionSyncConfig;
+	actions: WebhookAction[];
+}
+
+/**
+ * Applies a root's own settings over the inputs and checks that they go
+ * together.
+ */
+function createSyncConfig(
+	baseConfig: NotionSyncConfig,
+	root?: SyncRoot,
+): NotionSyncConfig {
+	const config = { ...baseConfig, ...root?.options };
+	const target = config.target ?? "wiki";
+	const outputFormat = config.outputFormat ?? "gfm";
+	const context = root ? `Root ${root.name}: ` : "";
+
+	// Wikis only render Markdown
+	if (target === "wiki" && outputFormat !== "gfm") {
+		throw new Error(
+			`${context}output-format ${outputFormat} needs target: repo, GitHub wikis only render gfm.`,
+		);
+	}
+
+	// Wikis find pages by file name, whatever directory they are in
+	if (target === "wiki" && config.pageNaming === "hierarchical") {
+		throw new Error(
+			`${context}page-naming hierarchical needs target: repo, GitHub wikis only link pages by name.`,
+		);
+	}
+
+	// Edits are read back as GitHub Markdown
+	if (config.twoWaySync && outputFormat !== "gfm") {
+		throw new Error(
+			`${context}two-way-sync needs output-format: gfm, ${outputFormat} pages can't be read back into Notion.`,
+		);
+	}
+
+	// The sidebar and footer are wiki features
+	return {
+		...config,
+		generateSidebar: getBooleanInput("generate-sidebar", target === "wiki"),
+		generateFooter: getBooleanInput("generate-footer", target === "wiki"),
+	};
+}
+
+/**
+ * Hands each webhook action to the job of the root the page lives under.
+ * Actions whose page can't be looked up, like a deleted page, go to every
+ * root, since only the root that synced the page has anything to remove.
+ */
+async function assignActionsToRoots(
+	actions: WebhookAction[],
+	jobs: SyncJob[],
+	notionSync: NotionSync,
+): Promise<void> {
+	const rootIds = jobs.flatMap((job) => (job.root ? [job.root.pageId] : []));
+
+	for (const action of actions) {
+		if (action.type === "verify") {
+			continue;
+		}
+
+		const targetId = getActionTargetId(action);
+		let rootId: string | null;
+		try {
+			rootId = await notionSync.findAllowedRoot(targetId, rootIds);
+		} catch (error) {
+			core.warning(`Could not find the root of page ${targetId}: ${error}`);
+			for (const job of jobs) {
+				job.actions.push(action);
+			}
+			continue;
+		}
+
+		const job = jobs.find(
+			(job) => job.root?.pageId.replace(/-/g, "").toLowerCase() === rootId,
+		);
+		if (!job) {
+			core.warning(
+				`Page ${targetId} is not within any root of the config file, skipping`,
+			);
+			continue;
+		}
+		job.actions.push(action);
+	}
+}
+
+/**
+ * Syncs the job's pages, once they are known to lie beneath an allowed root.
+ */
+async function runSyncJob(
+	job: SyncJob,
+	allowedRootPageIds: string[],
+): Promise<SyncResult> {
+	const notionSync = new NotionSync(job.config);
+
+	// Only pages beneath an allowed root may be synced
+	if (allowedRootPageIds.length > 0) {
+		for (const action of job.actions) {
+			if (action.type === "verify") {
+				continue;
+			}
+			const targetId = getActionTargetId(action);
+			let allowedRoot: string | null;
+			try {
+				allowedRoot = await notionSync.findAllowedRoot(
+					targetId,
+					allowedRootPageIds,
+				);
+			} catch (error) {
+				// A page that's gone for good can only be removed from the wiki,
+				// and only pages the manifest tracks are removed
+				if (
+					action.type === "delete-page" &&
+					isNotionClientError(error) &&
+					error.code === APIErrorCode.ObjectNotFound
+				) {
+					core.info(`Page ${targetId} no longer exists in Notion`);
+					continue;
+				}
+				throw error;
+			}
+			if (!allowedRoot) {
+				throw new Error(
+					`Page ${targetId} is not within any of the allowed-root-page-ids, refusing to sync`,
+				);
+			}
+			core.info(`Page ${targetId} is within allowed root ${allowedRoot}`);
+		}
+	}
+
+	// Perform sync
+	core.info("Executing sync operation...");
+	return notionSync.syncBatch(job.actions);
+}
+
+/**
+ * Reads a YAML list of page rules, the same as `include` and `exclude` of
+ * the config file.
+ */
+function getPageRulesInput(name: string): PageRule[] {
+	const input = core.getInput(name);
+	if (!input) {
+		return [];
+	}
+
+	let value: unknown;
+	try {
+		value = parseYaml(input);
+	} catch (error) {
+		throw new Error(
+			`Invalid ${name} value: ${error instanceof Error ? error.message : error}. Must be a YAML list of rules.`,
+		);
+	}
+
+	const rules = parsePageRules(value, name);
+	if (typeof rules === "string") {
+		throw new Error(`Invalid ${name} value: ${rules}.`);
+	}
+	return rules;
+}
+
 async function run(): Promise<void> {
 	// Get configuration inputs
 	const notionApiToken = core.getInput("notion-api-token", {
@@ -14,6 +259,38 @@ async function run(): Promise<void> {
 	const githubToken = core.getInput("github-token", { required: true });
 	const wikiPathPrefix = core.getInput("wiki-path-prefix") || "";
 	const maxDepthInput = core.getInput("max-depth") || "10";
+	const concurrencyInput = core.getInput("concurrency") || "3";
+	const targetInput = core.getInput("target") || "wiki";
+	const docsDirectoryInput =
+		core.getInput("docs-directory") || DEFAULT_DOCS_DIRECTORY;
+	const pullRequestBranch =
+		core.getInput("pull-request-branch") || DEFAULT_PULL_REQUEST_BRANCH;
+	const pullRequestBase = core.getInput("pull-request-base");
+	const outputFormatInput = core.getInput("output-format") || "gfm";
+	const pageNamingInput = core.getInput("page-naming") || "slug";
+
+	const pruneInput = core.getInput("prune") || "off";
+	const failOnInput = core.getInput("fail-on") || "all-errors";
+	const redirectRetentionInput =
+		core.getInput("redirect-retention-days") || "30";
+	const followMentions = getBooleanInput("follow-mentions", false);
+	const dryRun = getBooleanInput("dry-run", false);
+	const twoWaySync = getBooleanInput("two-way-sync", false);
+	const webhookVerificationToken = core.getInput("webhook-verification-token");
+	const webhookMaxAgeInput = core.getInput("webhook-max-age-seconds") || "300";
+	const allowedRootPageIds = core
+		.getInput("allowed-root-page-ids")
+		.split(",")
+		.map((id) => id.trim())
+		.filter(Boolean);
+	const databaseFilterInput = core.getInput("database-filter");
+	const include = getPageRulesInput("include");
+	const exclude = getPageRulesInput("exclude");
+	const databaseProperties = core
+		.getInput("database-properties")
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
 
 	// Validate max depth
 	const maxDepth = parseInt(maxDepthInput, 10);
@@ -23,75 +300,319 @@ async function run(): Promise<void> {
 		);
 	}
 
-	core.info("Starting Notion to GitHub Wiki sync...");
-	core.info(
-		`Configuration: wiki-path-prefix="${wikiPathPrefix}", max-depth=${maxDepth}`,
-	);
+	// Validate concurrency
+	const concurrency = parseInt(concurrencyInput, 10);
+	if (Number.isNaN(concurrency) || concurrency < 1) {
+		throw new Error(
+			`Invalid concurrency value: ${concurrencyInput}. Must be a positive integer.`,
+		);
+	}
 
-	// Try to get page ID from input first
-	let notionPageId = core.getInput("notion-page-id");
+	// Validate target
+	if (!["wiki", "repo"].includes(targetInput)) {
+		throw new Error(
+			`Invalid target value: ${targetInput}. Must be one of: wiki, repo.`,
+		);
+	}
+	const target = targetInput as SyncTarget;
 
-	// If no page ID provided, try to extract from webhook
-	if (!notionPageId) {
-		core.info("No page ID provided in input, checking webhook payload...");
+	// Validate docs directory, it must stay inside the repository
+	const docsDirectory = normalizeDocsDirectory(docsDirectoryInput);
+	if (!docsDirectory) {
+		throw new Error(
+			`Invalid docs-directory value: ${docsDirectoryInput}. Must be a directory within the repository.`,
+		);
+	}
+
+	// Validate output format, wikis only render Markdown
+	if (!OUTPUT_FORMATS.includes(outputFormatInput as OutputFormat)) {
+		throw new Error(
+			`Invalid output-format value: ${outputFormatInput}. Must be one of: ${OUTPUT_FORMATS.join(", ")}.`,
+		);
+	}
+	const outputFormat = outputFormatInput as OutputFormat;
 
-		const webhookPayload = getWebhookPayloadFromEnvironment();
+	// Validate page naming
+	if (!PAGE_NAMING_STRATEGIES.includes(pageNamingInput as PageNamingStrategy)) {
+		throw new Error(
+			`Invalid page-naming value: ${pageNamingInput}. Must be one of: ${PAGE_NAMING_STRATEGIES.join(", ")}.`,
+		);
+	}
+	const pageNaming = pageNamingInput as PageNamingStrategy;
+	const generateHome = getBooleanInput("generate-home", false);
 
-		if (webhookPayload) {
-			if (!validateWebhookPayload(webhookPayload)) {
-				throw new Error("Invalid webhook payload received");
-			}
+	// Validate prune mode
+	if (!["off", "delete", "archive"].includes(pruneInput)) {
+		throw new Error(
+			`Invalid prune value: ${pruneInput}. Must be one of: off, delete, archive.`,
+		);
+	}
+	const prune = pruneInput as PruneMode;
 
-			const extractedPageId = extractPageId(webhookPayload);
-			if (extractedPageId) {
-				notionPageId = extractedPageId;
-			}
+	// Validate fail-on
+	if (!["any-error", "all-errors", "never"].includes(failOnInput)) {
+		throw new Error(
+			`Invalid fail-on value: ${failOnInput}. Must be one of: any-error, all-errors, never.`,
+		);
+	}
+	const failOn = failOnInput as FailOn;
+
+	// Validate redirect retention
+	const redirectRetentionDays = parseInt(redirectRetentionInput, 10);
+	if (Number.isNaN(redirectRetentionDays) || redirectRetentionDays < 0) {
+		throw new Error(
+			`Invalid redirect-retention-days value: ${redirectRetentionInput}. Must be a non-negative integer.`,
+		);
+	}
+
+	// Validate database filter
+	let databaseFilter: DatabaseQueryFilter | undefined;
+	if (databaseFilterInput) {
+		try {
+			databaseFilter = JSON.parse(databaseFilterInput);
+		} catch (error) {
+			throw new Error(
+				`Invalid database-filter value: ${error instanceof Error ? error.message : error}. Must be a Notion database query filter in JSON.`,
+			);
 		}
 	}
 
-	// Validate that we have a page ID
-	if (!notionPageId) {
+	// Validate webhook max age
+	const webhookMaxAgeSeconds = parseInt(webhookMaxAgeInput, 10);
+	if (Number.isNaN(webhookMaxAgeSeconds) || webhookMaxAgeSeconds < 1) {
 		throw new Error(
-			'No Notion page ID found. Provide either "notion-page-id" input or trigger via webhook with page ID.',
+			`Invalid webhook-max-age-seconds value: ${webhookMaxAgeInput}. Must be a positive integer.`,
 		);
 	}
 
-	core.info(`Target page ID: ${notionPageId}`);
+	if (webhookVerificationToken) {
+		core.setSecret(webhookVerificationToken);
+	}
 
-	// Initialize sync service
-	const notionSync = new NotionSync({
+	core.info("Starting Notion to GitHub Wiki sync...");
+	core.info(
+		`Configuration: target=${target}, output-format=${outputFormat}, page-naming=${pageNaming}, wiki-path-prefix="${wikiPathPrefix}", max-depth=${maxDepth}, prune=${prune}`,
+	);
+
+	// Dispatched events must carry a valid Notion signature once a token is set
+	let verifiedPayloads: unknown[] | undefined;
+	if (
+		webhookVerificationToken &&
+		process.env.GITHUB_EVENT_NAME === "repository_dispatch"
+	) {
+		verifiedPayloads = verifyDispatchedWebhooks(
+			webhookVerificationToken,
+			webhookMaxAgeSeconds,
+		);
+		core.info(
+			`Verified ${verifiedPayloads.length} Notion webhook signature(s)`,
+		);
+	}
+
+	const baseConfig: NotionSyncConfig = {
 		notionApiToken,
 		githubToken,
 		wikiPathPrefix,
 		maxDepth,
-	});
+		target,
+		docsDirectory,
+		pullRequestBranch,
+		pullRequestBase,
+		outputFormat,
+		pageNaming,
+		prune,
+		redirectRetentionDays,
+		databaseFilter,
+		databaseProperties,
+		generateHome,
+		concurrency,
+		followMentions,
+		dryRun,
+		twoWaySync,
+		include,
+		exclude,
+	};
 
-	// Perform sync
-	core.info("Executing sync operation...");
-	const result = await notionSync.syncFromWebhook(notionPageId);
+	// Try to get page IDs from input first
+	const notionPageIds = core
+		.getInput("notion-page-id")
+		.split(/[\s,]+/)
+		.filter(Boolean);
+	const configFile = core.getInput("config-file");
+	let actions: WebhookAction[] = [];
+
+	let jobs: SyncJob[];
+	let roots: SyncRoot[] = [];
+	if (configFile) {
+		if (notionPageIds.length > 0) {
+			throw new Error(
+				"notion-page-id can't be combined with config-file. List the pages as roots of the config file instead.",
+			);
+		}
+		roots = await loadConfigFile(
+			configFile,
+			process.env.GITHUB_WORKSPACE || process.cwd(),
+		);
+		jobs = roots.map((root) => ({
+			root,
+			config: createSyncConfig(baseConfig, root),
+			actions: [],
+		}));
+		core.info(`Loaded ${roots.length} root(s) from ${configFile}`);
+	} else {
+		// Without a config file, the inputs describe the only root
+		jobs = [{ config: createSyncConfig(baseConfig), actions: [] }];
+	}
+
+	if (notionPageIds.length > 0) {
+		actions = [...new Set(notionPageIds)].map((pageId) => ({
+			type: "sync-page",
+			pageId,
+		}));
+	} else if (
+		roots.length > 0 &&
+		process.env.GITHUB_EVENT_NAME !== "repository_dispatch"
+	) {
+		// Scheduled and manual runs sync every root of the config file
+		actions = roots.map((root) => ({ type: "sync-page", pageId: root.pageId }));
+	} else {
+		// If no page ID provided, work out what the webhook events ask for
+		core.info("No page ID provided in input, checking webhook payload...");
+
+		const events = parseWebhookEvents(
+			verifiedPayloads ??
+				unwrapDispatchPayload(getWebhookPayloadFromEnvironment()),
+		);
+		actions = mergeWebhookEvents(events);
+		core.info(
+			`Received ${events.length} webhook event(s) affecting ${actions.length} page(s)`,
+		);
+	}
+
+	// Verification challenges only need to reach the relay
+	if (actions.some((action) => action.type === "verify")) {
+		core.info(
+			"Received a Notion webhook verification challenge, nothing to sync. Enter the verification token in Notion to activate the subscription.",
+		);
+		actions = actions.filter((action) => action.type !== "verify");
+		if (actions.length === 0) {
+			return;
+		}
+	}
+
+	// Validate that we have something to sync
+	if (actions.length === 0) {
+		throw new Error(
+			'No Notion page ID found. Provide either "notion-page-id" input or trigger via webhook with page ID.',
+		);
+	}
+
+	if (dryRun) {
+		core.info("Dry run enabled, wiki changes will be logged but not pushed");
+	}
+
+	if (roots.length > 0) {
+		await assignActionsToRoots(actions, jobs, new NotionSync(baseConfig));
+		jobs = jobs.filter((job) => job.actions.length > 0);
+	} else {
+		jobs[0].actions = actions;
+	}
+
+	const results: SyncResult[] = [];
+	for (const job of jobs) {
+		if (job.root) {
+			core.startGroup(`Syncing root ${job.root.name}`);
+		}
+		try {
+			results.push(await runSyncJob(job, allowedRootPageIds));
+		} finally {
+			if (job.root) {
+				core.endGroup();
+			}
+		}
+	}
+	const result = mergeSyncResults(results);
 
 	// Set outputs
 	core.setOutput("pages-synced", result.pagesSynced.toString());
+	core.setOutput("pages-created", result.pagesCreated.toString());
+	core.setOutput("pages-updated", result.pagesUpdated.toString());
+	core.setOutput("pages-skipped", result.pagesSkipped.toString());
+	core.setOutput("pages-pruned", result.pagesPruned.toString());
+	core.setOutput("pages-failed", result.pagesFailed.toString());
 	core.setOutput("sync-status", result.status);
+	core.setOutput("sync-report", JSON.stringify(result));
+	core.setOutput("pull-request-url", result.pullRequestUrl ?? "");
+	const wikiEdits = result.wikiEdits ?? [];
+	core.setOutput(
+		"wiki-edits-pushed",
+		wikiEdits.filter((edit) => edit.status === "pushed").length.toString(),
+	);
+	core.setOutput(
+		"wiki-conflicts",
+		wikiEdits.filter((edit) => edit.status === "conflict").length.toString(),
+	);
+
+	if (result.cycles.length > 0) {
+		core.warning(
+			`Found ${result.cycles.length} page cycle(s) in Notion, each page was synced once`,
+		);
+	}
 
 	// Log results
 	if (result.status === "success") {
 		core.info(
-			`✅ Sync completed successfully! Pages synced: ${result.pagesSynced}`,
+			`✅ Sync completed successfully! Pages synced: ${result.pagesSynced} (created: ${result.pagesCreated}, updated: ${result.pagesUpdated}, unchanged: ${result.pagesSkipped})`,
 		);
 	} else if (result.status === "partial") {
 		core.warning(
-			`⚠️  Sync completed with issues. Pages synced: ${result.pagesSynced}`,
+			`⚠️  Sync completed with issues. Pages synced: ${result.pagesSynced}, failed: ${result.pagesFailed}`,
 		);
 	} else {
 		core.error(`❌ Sync failed. Pages synced: ${result.pagesSynced}`);
 	}
+
+	for (const page of result.pages) {
+		if (page.status === "failed") {
+			core.error(`Failed: ${page.title || page.pageId} (${page.error})`);
+		}
+	}
+
+	// Only available when running on GitHub
+	if (process.env.GITHUB_STEP_SUMMARY) {
+		for (const [index, job] of jobs.entries()) {
+			const pageUrl = createPageUrlBuilder(
+				job.config.target ?? "wiki",
+				job.config.pullRequestBranch ?? DEFAULT_PULL_REQUEST_BRANCH,
+				job.config.docsDirectory ?? DEFAULT_DOCS_DIRECTORY,
+				createRenderer(job.config.outputFormat ?? "gfm").fileExtension,
+			);
+			core.summary.addRaw(
+				buildJobSummary(results[index], pageUrl, job.root?.name),
+			);
+		}
+		await core.summary.write();
+	}
+
+	const shouldFail =
+		failOn === "any-error"
+			? result.status !== "success"
+			: failOn === "all-errors" && result.status === "error";
+	if (shouldFail) {
+		core.setFailed(
+			result.pagesFailed > 0
+				? `${result.pagesFailed} of ${result.pages.length} page(s) failed to sync`
+				: "Sync failed, see the log for details",
+		);
+	}
 }
 
 // Execute the action with error handling
 run()
 	.then(() => {
-		core.info("Action completed successfully");
+		if (process.exitCode !== core.ExitCode.Failure) {
+			core.info("Action completed successfully");
+		}
 	})
 	.catch((error) => {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,178 @@
+import type {
+	PageResult,
+	SyncResult,
+	SyncTarget,
+	WikiEditResult,
+} from "./notion-sync";
+
+const STATUS_LABELS: Record<PageResult["status"], string> = {
+	created: "🆕 Created",
+	updated: "✏️ Updated",
+	skipped: "Unchanged",
+	failed: "❌ Failed",
+	conflict: "⚠️ Conflict",
+};
+
+const WIKI_EDIT_LABELS: Record<WikiEditResult["status"], string> = {
+	pushed: "✅ Written to Notion",
+	planned: "📝 Would be written to Notion",
+	conflict: "⚠️ Conflict",
+	failed: "❌ Failed",
+};
+
+const HEADINGS: Record<SyncResult["status"], string> = {
+	success: "✅ Notion sync succeeded",
+	partial: "⚠️ Notion sync completed with failures",
+	error: "❌ Notion sync failed",
+};
+
+/**
+ * Links a synced page by its wiki page name, to the wiki or to the file on the
+ * pull request branch for the repo target.
+ */
+export function createPageUrlBuilder(
+	target: SyncTarget,
+	branch: string,
+	directory: string,
+	fileExtension = ".md",
+): (pageName: string) => string {
+	const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+	const repositoryUrl = `${serverUrl}/${process.env.GITHUB_REPOSITORY}`;
+
+	return target === "repo"
+		? (pageName) =>
+				`${repositoryUrl}/blob/${branch}/${directory}/${pageName.split("/").map(encodeURIComponent).join("/")}${fileExtension}`
+		: (pageName) => `${repositoryUrl}/wiki/${encodeURIComponent(pageName)}`;
+}
+
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Keeps titles from breaking out of their table cell or link text */
+function escapeCell(text: string): string {
+	return text.replace(/[|[\]\\]/g, "\\$&").replace(/\n/g, " ");
+}
+
+/**
+ * Renders the run as Markdown for the workflow's job summary: totals, one row
+ * per page with links to both copies, and the blocks each page had to drop.
+ * Runs over several roots get a summary per root, named by `rootName`.
+ */
+export function buildJobSummary(
+	result: SyncResult,
+	pageUrl: (pageName: string) => string,
+	rootName?: string,
+): string {
+	const heading = rootName
+		? `${HEADINGS[result.status]}: ${rootName}`
+		: HEADINGS[result.status];
+	const lines = [`## ${heading}`, ""];
+
+	if (result.dryRun) {
+		lines.push(
+			"_Dry run: the counts show what would have changed, nothing was pushed to the wiki._",
+			"",
+		);
+	}
+
+	if (result.pullRequestUrl) {
+		lines.push(`Changes are in pull request ${result.pullRequestUrl}`, "");
+	}
+
+	lines.push(
+		"| Created | Updated | Unchanged | Failed | Pruned |",
+		"| --- | --- | --- | --- | --- |",
+		`| ${result.pagesCreated} | ${result.pagesUpdated} | ${result.pagesSkipped} | ${result.pagesFailed} | ${result.pagesPruned} |`,
+	);
+
+	if (result.pages.length > 0) {
+		lines.push(
+			"",
+			"### Pages",
+			"",
+			"| Page | Status | Synced to | Notion | Time |",
+			"| --- | --- | --- | --- | --- |",
+		);
+
+		for (const page of result.pages) {
+			const title = escapeCell(page.title || page.pageId);
+			const wikiLink =
+				page.wikiPageName && page.status !== "failed"
+					? `[${escapeCell(page.wikiPageName)}](${pageUrl(page.wikiPageName)})`
+					: "—";
+			const notionLink = page.notionUrl ? `[Open](${page.notionUrl})` : "—";
+			const status =
+				page.status === "failed" && page.error
+					? `${STATUS_LABELS.failed}: ${escapeCell(page.error)}`
+					: STATUS_LABELS[page.status];
+
+			lines.push(
+				`| ${title} | ${status} | ${wikiLink} | ${notionLink} | ${formatDuration(page.durationMs)} |`,
+			);
+		}
+	}
+
+	const pagesWithUnsupportedBlocks = result.pages.filter(
+		(page) => page.unsupportedBlockTypes?.length,
+	);
+	if (pagesWithUnsupportedBlocks.length > 0) {
+		lines.push(
+			"",
+			"### Unsupported blocks",
+			"",
+			"These block types were left out of the wiki pages:",
+			"",
+		);
+		for (const page of pagesWithUnsupportedBlocks) {
+			const types = (page.unsupportedBlockTypes ?? [])
+				.map((type) => `\`${type}\``)
+				.join(", ");
+			lines.push(`- ${escapeCell(page.title || page.pageId)}: ${types}`);
+		}
+	}
+
+	if (result.excludedPages?.length) {
+		lines.push(
+			"",
+			"### Excluded pages",
+			"",
+			"These pages were left out along with the pages beneath them:",
+			"",
+		);
+		for (const page of result.excludedPages) {
+			const title = escapeCell(page.title || page.pageId);
+			const name = page.notionUrl ? `[${title}](${page.notionUrl})` : title;
+			lines.push(`- ${name}: ${escapeCell(page.reason)}`);
+		}
+	}
+
+	if (result.wikiEdits?.length) {
+		lines.push(
+			"",
+			"### Wiki edits",
+			"",
+			"These wiki pages were edited since the last sync:",
+			"",
+		);
+		for (const edit of result.wikiEdits) {
+			const link = `[${escapeCell(edit.title || edit.wikiPageName)}](${pageUrl(edit.wikiPageName)})`;
+			const reason = edit.reason ? `: ${escapeCell(edit.reason)}` : "";
+			lines.push(`- ${link}: ${WIKI_EDIT_LABELS[edit.status]}${reason}`);
+		}
+	}
+
+	if (result.cycles.length > 0) {
+		lines.push(
+			"",
+			`Found ${result.cycles.length} page cycle(s) in Notion, each page was synced once.`,
+		);
+	}
+
+	lines.push(
+		"",
+		`${result.apiCalls} Notion API call(s) in ${formatDuration(result.durationMs)}`,
+	);
+
+	return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,944 @@
+import type { BlockObjectRequest } from "@notionhq/client";
+
+/** Notion block types that can be written back from Markdown */
+export const WRITABLE_BLOCK_TYPES = [
+	"paragraph",
+	"heading_1",
+	"heading_2",
+	"heading_3",
+	"bulleted_list_item",
+	"numbered_list_item",
+	"to_do",
+	"quote",
+	"code",
+	"divider",
+	"equation",
+] as const;
+
+export type WritableBlockType = (typeof WRITABLE_BLOCK_TYPES)[number];
+
+type CodeLanguage = Extract<
+	BlockObjectRequest,
+	{ type?: "code" }
+>["code"]["language"];
+
+/** Languages Notion accepts on code blocks */
+const CODE_LANGUAGES = new Set<string>([
+	"abap",
+	"abc",
+	"agda",
+	"arduino",
+	"ascii art",
+	"assembly",
+	"bash",
+	"basic",
+	"bnf",
+	"c",
+	"c#",
+	"c++",
+	"clojure",
+	"coffeescript",
+	"coq",
+	"css",
+	"dart",
+	"dhall",
+	"diff",
+	"docker",
+	"ebnf",
+	"elixir",
+	"elm",
+	"erlang",
+	"f#",
+	"flow",
+	"fortran",
+	"gherkin",
+	"glsl",
+	"go",
+	"graphql",
+	"groovy",
+	"haskell",
+	"hcl",
+	"html",
+	"idris",
+	"java",
+	"javascript",
+	"json",
+	"julia",
+	"kotlin",
+	"latex",
+	"less",
+	"lisp",
+	"livescript",
+	"llvm ir",
+	"lua",
+	"makefile",
+	"markdown",
+	"markup",
+	"matlab",
+	"mathematica",
+	"mermaid",
+	"nix",
+	"notion formula",
+	"objective-c",
+	"ocaml",
+	"pascal",
+	"perl",
+	"php",
+	"plain text",
+	"powershell",
+	"prolog",
+	"protobuf",
+	"purescript",
+	"python",
+	"r",
+	"racket",
+	"reason",
+	"ruby",
+	"rust",
+	"sass",
+	"scala",
+	"scheme",
+	"scss",
+	"shell",
+	"smalltalk",
+	"solidity",
+	"sql",
+	"swift",
+	"toml",
+	"typescript",
+	"vb.net",
+	"verilog",
+	"vhdl",
+	"visual basic",
+	"webassembly",
+	"xml",
+	"yaml",
+	"java/c/c++/c#",
+]);
+
+/** Fence info strings people write for languages Notion names differently */
+const LANGUAGE_ALIASES: Record<string, string> = {
+	"": "plain text",
+	text: "plain text",
+	txt: "plain text",
+	plaintext: "plain text",
+	js: "javascript",
+	jsx: "javascript",
+	ts: "typescript",
+	tsx: "typescript",
+	sh: "shell",
+	zsh: "shell",
+	console: "shell",
+	py: "python",
+	rb: "ruby",
+	rs: "rust",
+	yml: "yaml",
+	md: "markdown",
+	dockerfile: "docker",
+	cs: "c#",
+	csharp: "c#",
+	cpp: "c++",
+	kt: "kotlin",
+	golang: "go",
+	tex: "latex",
+	ps1: "powershell",
+};
+
+/** Notion rejects rich text items longer than this */
+const MAX_TEXT_LENGTH = 2000;
+
+/** Notion takes at most this many blocks per append request */
+export const MAX_BLOCKS_PER_REQUEST = 100;
+
+export interface TextRun {
+	content: string;
+	bold?: boolean;
+	italic?: boolean;
+	strikethrough?: boolean;
+	code?: boolean;
+	link?: string;
+}
+
+type TextStyle = Omit<TextRun, "content">;
+
+/**
+ * A block of a Markdown page in the shape of the Notion block it becomes.
+ */
+export interface MarkdownBlock {
+	/** Notion block type, or `unsupported` for Markdown no Notion block is written from */
+	type: WritableBlockType | "unsupported";
+	/** Text of the block, the code of code blocks and the expression of equations */
+	text: TextRun[];
+	children: MarkdownBlock[];
+	checked?: boolean;
+	language?: string;
+	/** The Markdown the block was parsed from */
+	source: string;
+}
+
+export interface MarkdownParseOptions {
+	/**
+	 * Maps a link target to the URL stored in Notion. Targets it leaves
+	 * undefined keep absolute URLs and lose other links.
+	 */
+	resolveLink?: (url: string) => string | undefined;
+}
+
+const FENCE = /^(`{3,}|~{3,})\s*(.*)$/;
+const HEADING = /^(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const DIVIDER = /^(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TASK = /^\[([ xX])\](?:\s+(.*))?$/;
+const HTML_BLOCK = /^<\/?[a-zA-Z]/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const ABSOLUTE_URL = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Parses GitHub-flavored Markdown into the blocks Notion would hold for it.
+ * Markdown without a Notion equivalent here, like tables, images and HTML,
+ * comes back as `unsupported` blocks.
+ */
+export function parseMarkdown(
+	markdown: string,
+	options: MarkdownParseOptions = {},
+): MarkdownBlock[] {
+	const lines = markdown
+		.replace(/\r\n?/g, "\n")
+		.split("\n")
+		.map((line) => line.replace(/^\t+/, (tabs) => "    ".repeat(tabs.length)));
+	return parseLines(lines, options);
+}
+
+function parseLines(
+	lines: string[],
+	options: MarkdownParseOptions,
+): MarkdownBlock[] {
+	const blocks: MarkdownBlock[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const stripped = line.trim();
+		if (!stripped) {
+			i++;
+			continue;
+		}
+
+		const fence = stripped.match(FENCE);
+		if (fence) {
+			const marker = fence[1];
+			let end = i + 1;
+			while (
+				end < lines.length &&
+				!new RegExp(`^${marker[0]}{${marker.length},}\\s*$`).test(
+					lines[end].trim(),
+				)
+			) {
+				end++;
+			}
+			const indent = indentation(line);
+			const code = lines
+				.slice(i + 1, end)
+				.map((codeLine) => dedent(codeLine, indent))
+				.join("\n");
+			blocks.push({
+				type: "code",
+				text: [{ content: code }],
+				children: [],
+				language: normalizeLanguage(fence[2]),
+				source: lines.slice(i, end + 1).join("\n"),
+			});
+			i = end + 1;
+			continue;
+		}
+
+		if (stripped.startsWith("$$")) {
+			const inline = stripped.match(/^\$\$(.+)\$\$$/);
+			let end = i;
+			let expression: string;
+			if (inline) {
+				expression = inline[1].trim();
+			} else {
+				end = i + 1;
+				while (end < lines.length && lines[end].trim() !== "$$") {
+					end++;
+				}
+				expression = [stripped.slice(2), ...lines.slice(i + 1, end)]
+					.join("\n")
+					.trim();
+			}
+			blocks.push({
+				type: "equation",
+				text: [{ content: expression }],
+				children: [],
+				source: lines.slice(i, end + 1).join("\n"),
+			});
+			i = end + 1;
+			continue;
+		}
+
+		const heading = stripped.match(HEADING);
+		if (heading) {
+			const level = Math.min(heading[1].length, 3);
+			blocks.push({
+				type: `heading_${level}` as WritableBlockType,
+				text: parseInline(heading[2] ?? "", options),
+				children: [],
+				source: line,
+			});
+			i++;
+			continue;
+		}
+
+		if (DIVIDER.test(stripped)) {
+			blocks.push({ type: "divider", text: [], children: [], source: line });
+			i++;
+			continue;
+		}
+
+		if (stripped.startsWith(">")) {
+			let end = i;
+			while (end < lines.length && lines[end].trim().startsWith(">")) {
+				end++;
+			}
+			blocks.push(parseQuote(lines.slice(i, end), options));
+			i = end;
+			continue;
+		}
+
+		if (stripped.startsWith("|") || /^<details[\s>]/i.test(stripped)) {
+			const end = findUnsupportedEnd(lines, i);
+			blocks.push(unsupported(lines.slice(i, end)));
+			i = end;
+			continue;
+		}
+
+		const listItem = line.match(LIST_ITEM);
+		if (listItem) {
+			const end = findListItemEnd(lines, i, listItemOffset(listItem));
+			blocks.push(parseListItem(lines.slice(i, end), listItem, options));
+			i = end;
+			continue;
+		}
+
+		const end = findParagraphEnd(lines, i);
+		if (stripped.startsWith("![") || HTML_BLOCK.test(stripped)) {
+			blocks.push(unsupported(lines.slice(i, end)));
+		} else {
+			blocks.push(parseParagraph(lines.slice(i, end), options));
+		}
+		i = end;
+	}
+
+	return blocks;
+}
+
+function parseQuote(
+	lines: string[],
+	options: MarkdownParseOptions,
+): MarkdownBlock {
+	const inner = parseLines(
+		lines.map((line) => line.trim().replace(/^> ?/, "")),
+		options,
+	);
+
+	// The first paragraph is the quote's own text, the rest nests inside it
+	const [first, ...rest] = inner;
+	const ownText = first?.type === "paragraph";
+	return {
+		type: "quote",
+		text: ownText ? first.text : [],
+		children: ownText ? [...first.children, ...rest] : inner,
+		source: lines.join("\n"),
+	};
+}
+
+function parseListItem(
+	lines: string[],
+	match: RegExpMatchArray,
+	options: MarkdownParseOptions,
+): MarkdownBlock {
+	const offset = listItemOffset(match);
+	const textLines = [match[4] ?? ""];
+	let i = 1;
+
+	// Unindented lines right after the marker continue the item's text
+	while (
+		i < lines.length &&
+		lines[i].trim() &&
+		indentation(lines[i]) < offset &&
+		!startsBlock(lines[i].trim())
+	) {
+		textLines.push(lines[i].trim());
+		i++;
+	}
+
+	const children = parseLines(
+		lines.slice(i).map((line) => dedent(line, offset)),
+		options,
+	);
+
+	let text = textLines.join("\n").trim();
+	const task = match[2].match(/^[-*+]$/) ? text.match(TASK) : null;
+	let checked: boolean | undefined;
+	if (task) {
+		checked = task[1] !== " ";
+		text = task[2] ?? "";
+	}
+
+	return {
+		type: task
+			? "to_do"
+			: /^\d/.test(match[2])
+				? "numbered_list_item"
+				: "bulleted_list_item",
+		text: parseInline(text, options),
+		children,
+		...(task && { checked }),
+		source: lines.join("\n"),
+	};
+}
+
+function parseParagraph(
+	lines: string[],
+	options: MarkdownParseOptions,
+): MarkdownBlock {
+	const baseIndent = indentation(lines[0]);
+	let textEnd = 1;
+
+	// Lines indented past the paragraph are blocks nested inside it
+	while (
+		textEnd < lines.length &&
+		indentation(lines[textEnd]) < baseIndent + 2
+	) {
+		textEnd++;
+	}
+
+	return {
+		type: "paragraph",
+		text: parseInline(
+			lines
+				.slice(0, textEnd)
+				.map((line) => line.trim())
+				.join("\n"),
+			options,
+		),
+		children: parseLines(
+			lines.slice(textEnd).map((line) => dedent(line, baseIndent + 2)),
+			options,
+		),
+		source: lines.join("\n"),
+	};
+}
+
+function unsupported(lines: string[]): MarkdownBlock {
+	return {
+		type: "unsupported",
+		text: [],
+		children: [],
+		source: lines.map((line) => line.trimEnd()).join("\n"),
+	};
+}
+
+/** Tables run until a line that isn't a row, HTML blocks until their closing tag */
+function findUnsupportedEnd(lines: string[], start: number): number {
+	if (lines[start].trim().startsWith("|")) {
+		let end = start;
+		while (end < lines.length && lines[end].trim().startsWith("|")) {
+			end++;
+		}
+		return end;
+	}
+
+	let depth = 0;
+	for (let end = start; end < lines.length; end++) {
+		depth += (lines[end].match(/<details[\s>]/gi) ?? []).length;
+		depth -= (lines[end].match(/<\/details>/gi) ?? []).length;
+		if (depth <= 0) {
+			return end + 1;
+		}
+	}
+	return lines.length;
+}
+
+function findListItemEnd(
+	lines: string[],
+	start: number,
+	offset: number,
+): number {
+	let end = start + 1;
+	let previousBlank = false;
+
+	while (end < lines.length) {
+		const line = lines[end];
+		if (!line.trim()) {
+			previousBlank = true;
+			end++;
+			continue;
+		}
+
+		const nested = indentation(line) >= offset;
+		// Without a blank line before it, plain text continues the item lazily
+		const lazy = !previousBlank && !startsBlock(line.trim());
+		if (!nested && !lazy) {
+			break;
+		}
+		previousBlank = false;
+		end++;
+	}
+
+	// Trailing blank lines separate the item from what follows
+	while (end > start + 1 && !lines[end - 1].trim()) {
+		end--;
+	}
+	return end;
+}
+
+function findParagraphEnd(lines: string[], start: number): number {
+	const baseIndent = indentation(lines[start]);
+	let end = start + 1;
+	let nested = false;
+
+	while (end < lines.length) {
+		const line = lines[end];
+		if (!line.trim()) {
+			// Blank lines only continue blocks nested inside the paragraph
+			const next = lines.slice(end).find((candidate) => candidate.trim());
+			if (!nested || !next || indentation(next) < baseIndent + 2) {
+				break;
+			}
+			end++;
+			continue;
+		}
+
+		if (indentation(line) >= baseIndent + 2) {
+			nested = true;
+		} else if (nested || startsBlock(line.trim())) {
+			break;
+		}
+		end++;
+	}
+
+	return end;
+}
+
+function startsBlock(stripped: string): boolean {
+	return (
+		FENCE.test(stripped) ||
+		HEADING.test(stripped) ||
+		DIVIDER.test(stripped) ||
+		LIST_ITEM.test(stripped) ||
+		HTML_BLOCK.test(stripped) ||
+		stripped.startsWith("$$") ||
+		stripped.startsWith(">") ||
+		stripped.startsWith("|")
+	);
+}
+
+function listItemOffset(match: RegExpMatchArray): number {
+	const spaces = match[3]?.length ?? 1;
+	// More than four spaces would start indented code, so only one counts
+	return match[1].length + match[2].length + (spaces > 4 ? 1 : spaces);
+}
+
+function indentation(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function dedent(line: string, columns: number): string {
+	return line.slice(Math.min(columns, indentation(line)));
+}
+
+function normalizeLanguage(info: string): string {
+	const language = info.trim().toLowerCase();
+	const aliased = LANGUAGE_ALIASES[language] ?? language;
+	return CODE_LANGUAGES.has(aliased) ? aliased : "plain text";
+}
+
+/**
+ * Parses inline Markdown into runs of text with the annotations and links
+ * Notion stores on rich text.
+ */
+export function parseInline(
+	text: string,
+	options: MarkdownParseOptions = {},
+): TextRun[] {
+	const runs: TextRun[] = [];
+	parseSpan(text, {}, options, runs);
+
+	// Neighbouring runs with the same style are one run in Notion
+	const merged: TextRun[] = [];
+	for (const run of runs) {
+		const previous = merged[merged.length - 1];
+		if (previous && sameStyle(previous, run)) {
+			previous.content += run.content;
+		} else {
+			merged.push({ ...run });
+		}
+	}
+	return merged;
+}
+
+function parseSpan(
+	text: string,
+	style: TextStyle,
+	options: MarkdownParseOptions,
+	runs: TextRun[],
+): void {
+	let buffer = "";
+	const flush = () => {
+		if (buffer) {
+			runs.push({ ...style, content: buffer });
+			buffer = "";
+		}
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+			buffer += text[i + 1];
+			i += 2;
+			continue;
+		}
+
+		if (char === "`") {
+			const ticks = (text.slice(i).match(/^`+/) as RegExpMatchArray)[0];
+			const close = findCodeSpanEnd(text, i + ticks.length, ticks.length);
+			if (close === -1) {
+				buffer += ticks;
+				i += ticks.length;
+				continue;
+			}
+
+			flush();
+			let code = text.slice(i + ticks.length, close);
+			// One space on each side lets code start or end with a backtick
+			if (/^ [\s\S]* $/.test(code) && code.trim()) {
+				code = code.slice(1, -1);
+			}
+			runs.push({ ...style, code: true, content: code });
+			i = close + ticks.length;
+			continue;
+		}
+
+		if (text.startsWith("[[", i)) {
+			const close = text.indexOf("]]", i + 2);
+			if (close !== -1) {
+				flush();
+				// GitHub wiki links are `[[Page]]` or `[[Label|Page]]`
+				const parts = text.slice(i + 2, close).split("|");
+				const page = parts[parts.length - 1].trim();
+				const link = resolveUrl(page, options);
+				runs.push({
+					...style,
+					content: parts[0].trim(),
+					...(link && { link }),
+				});
+				i = close + 2;
+				continue;
+			}
+		}
+
+		if (char === "[") {
+			const link = matchLink(text, i);
+			if (link) {
+				flush();
+				const url = resolveUrl(link.url, options);
+				parseSpan(
+					link.label,
+					{ ...style, ...(url && { link: url }) },
+					options,
+					runs,
+				);
+				i = link.end;
+				continue;
+			}
+		}
+
+		if (char === "<") {
+			const autolink = text
+				.slice(i)
+				.match(/^<((?:https?:\/\/|mailto:)[^\s>]+)>/i);
+			if (autolink) {
+				flush();
+				runs.push({ ...style, content: autolink[1], link: autolink[1] });
+				i += autolink[0].length;
+				continue;
+			}
+		}
+
+		if (char === "*" || char === "_" || char === "~") {
+			const emphasis = matchEmphasis(text, i);
+			const delimiters = (
+				text.slice(i).match(/^(\*+|_+|~+)/) as RegExpMatchArray
+			)[0];
+			if (!emphasis) {
+				buffer += delimiters;
+				i += delimiters.length;
+				continue;
+			}
+
+			flush();
+			parseSpan(emphasis.inner, { ...style, ...emphasis.style }, options, runs);
+			i = emphasis.end;
+			continue;
+		}
+
+		buffer += char;
+		i++;
+	}
+
+	flush();
+}
+
+function resolveUrl(
+	url: string,
+	options: MarkdownParseOptions,
+): string | undefined {
+	return (
+		options.resolveLink?.(url) ?? (ABSOLUTE_URL.test(url) ? url : undefined)
+	);
+}
+
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+	let i = from;
+	while (i < text.length) {
+		const ticks = text.slice(i).match(/^`+/);
+		if (ticks) {
+			if (ticks[0].length === length) {
+				return i;
+			}
+			i += ticks[0].length;
+		} else {
+			i++;
+		}
+	}
+	return -1;
+}
+
+function matchLink(
+	text: string,
+	start: number,
+): { label: string; url: string; end: number } | null {
+	const labelEnd = findClosing(text, start, "[", "]");
+	if (labelEnd === -1 || text[labelEnd + 1] !== "(") {
+		return null;
+	}
+
+	const urlEnd = findClosing(text, labelEnd + 1, "(", ")");
+	if (urlEnd === -1) {
+		return null;
+	}
+
+	// Drop an optional title and the angle brackets around the destination
+	const destination = text.slice(labelEnd + 2, urlEnd).trim();
+	const url = destination.startsWith("<")
+		? destination.slice(1, destination.indexOf(">"))
+		: destination.split(/\s+/)[0];
+
+	return { label: text.slice(start + 1, labelEnd), url, end: urlEnd + 1 };
+}
+
+function findClosing(
+	text: string,
+	start: number,
+	open: string,
+	close: string,
+): number {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === "\\") {
+			i++;
+		} else if (text[i] === open) {
+			depth++;
+		} else if (text[i] === close && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Matches emphasis opened by the delimiter run at `start`: `*` or `_` once for
+ * italic, twice for bold and three times for both, `~~` for strikethrough.
+ */
+function matchEmphasis(
+	text: string,
+	start: number,
+): { inner: string; style: TextStyle; end: number } | null {
+	const char = text[start];
+	const length = delimiterRunLength(text, start);
+	const isWordChar = (value?: string) => !!value && /[\p{L}\p{N}]/u.test(value);
+
+	if (char === "~" ? length !== 2 : length > 3) {
+		return null;
+	}
+	// Emphasis has to hug its text, and `_` never splits a word
+	if (!text[start + length] || /\s/.test(text[start + length])) {
+		return null;
+	}
+	if (char === "_" && isWordChar(text[start - 1])) {
+		return null;
+	}
+
+	let i = start + length;
+	while (i < text.length) {
+		if (text[i] === "\\") {
+			i += 2;
+			continue;
+		}
+
+		if (text[i] === "`") {
+			const ticks = (text.slice(i).match(/^`+/) as RegExpMatchArray)[0];
+			const close = findCodeSpanEnd(text, i + ticks.length, ticks.length);
+			i = close === -1 ? i + ticks.length : close + ticks.length;
+			continue;
+		}
+
+		if (text[i] !== char) {
+			i++;
+			continue;
+		}
+
+		const closing = delimiterRunLength(text, i);
+		if (
+			closing === length &&
+			!/\s/.test(text[i - 1]) &&
+			!(char === "_" && isWordChar(text[i + length]))
+		) {
+			const style: TextStyle =
+				char === "~"
+					? { strikethrough: true }
+					: {
+							...(length !== 2 && { italic: true }),
+							...(length >= 2 && { bold: true }),
+						};
+			return { inner: text.slice(start + length, i), style, end: i + length };
+		}
+		i += closing;
+	}
+
+	return null;
+}
+
+function delimiterRunLength(text: string, start: number): number {
+	let end = start;
+	while (text[end] === text[start]) {
+		end++;
+	}
+	return end - start;
+}
+
+function sameStyle(a: TextRun, b: TextRun): boolean {
+	return (
+		!!a.bold === !!b.bold &&
+		!!a.italic === !!b.italic &&
+		!!a.strikethrough === !!b.strikethrough &&
+		!!a.code === !!b.code &&
+		a.link === b.link
+	);
+}
+
+/**
+ * Identifies a block by its content, so the same block parsed from two
+ * pages compares equal.
+ */
+export function blockKey(block: MarkdownBlock): string {
+	return JSON.stringify(normalizeBlock(block));
+}
+
+function normalizeBlock(block: MarkdownBlock): unknown {
+	if (block.type === "unsupported") {
+		return { type: block.type, source: block.source.trim() };
+	}
+
+	return {
+		type: block.type,
+		text: block.text.map((run) => ({
+			content: run.content,
+			bold: !!run.bold,
+			italic: !!run.italic,
+			strikethrough: !!run.strikethrough,
+			code: !!run.code,
+			link: run.link ?? null,
+		})),
+		checked: block.checked,
+		language: block.language,
+		children: block.children.map(normalizeBlock),
+	};
+}
+
+type RichTextRequest = Extract<
+	BlockObjectRequest,
+	{ type?: "paragraph" }
+>["paragraph"]["rich_text"][number];
+
+function toRichText(runs: TextRun[]): RichTextRequest[] {
+	return runs.flatMap((run) => {
+		const items: RichTextRequest[] = [];
+		for (let start = 0; start < run.content.length; start += MAX_TEXT_LENGTH) {
+			items.push({
+				type: "text",
+				text: {
+					content: run.content.slice(start, start + MAX_TEXT_LENGTH),
+					link: run.link ? { url: run.link } : null,
+				},
+				annotations: {
+					bold: !!run.bold,
+					italic: !!run.italic,
+					strikethrough: !!run.strikethrough,
+					underline: false,
+					code: !!run.code,
+					color: "default",
+				},
+			});
+		}
+		return items;
+	});
+}
+
+/**
+ * The Notion block request for a parsed block, without its children, which
+ * have to be appended to the created block.
+ */
+export function toBlockRequest(block: MarkdownBlock): BlockObjectRequest {
+	const rich_text = toRichText(block.text);
+	const plainText = block.text.map((run) => run.content).join("");
+
+	switch (block.type) {
+		case "paragraph":
+			return { type: "paragraph", paragraph: { rich_text } };
+		case "heading_1":
+			return { type: "heading_1", heading_1: { rich_text } };
+		case "heading_2":
+			return { type: "heading_2", heading_2: { rich_text } };
+		case "heading_3":
+			return { type: "heading_3", heading_3: { rich_text } };
+		case "bulleted_list_item":
+			return { type: "bulleted_list_item", bulleted_list_item: { rich_text } };
+		case "numbered_list_item":
+			return { type: "numbered_list_item", numbered_list_item: { rich_text } };
+		case "to_do":
+			return { type: "to_do", to_do: { rich_text, checked: !!block.checked } };
+		case "quote":
+			return { type: "quote", quote: { rich_text } };
+		case "code":
+			return {
+				type: "code",
+				code: {
+					rich_text,
+					language: (block.language ?? "plain text") as CodeLanguage,
+				},
+			};
+		case "divider":
+			return { type: "divider", divider: {} };
+		case "equation":
+			return { type: "equation", equation: { expression: plainText } };
+		default:
+			throw new Error(
+				`Markdown can't be written to Notion: ${block.source.split("\n")[0]}`,
+			);
+	}
+}
@@ -1,168 +1,1783 @@
+import * as path from "node:path";
 import * as core from "@actions/core";
-import { getOctokit } from "@actions/github";
+import * as github from "@actions/github";
 import {
+	APIErrorCode,
 	type BlockObjectResponse,
 	Client,
+	type DatabaseObjectResponse,
+	isNotionClientError,
 	type PageObjectResponse,
 	type PartialBlockObjectResponse,
 	type RichTextItemResponse,
+	type UpdateBlockParameters,
 } from "@notionhq/client";
+import { AssetStore } from "./asset-store";
+import {
+	MAX_BLOCKS_PER_REQUEST,
+	type MarkdownBlock,
+	parseMarkdown,
+	toBlockRequest,
+	WRITABLE_BLOCK_TYPES,
+} from "./markdown-parser";
+import { describePageRule, PageFilter, type PageRule } from "./page-filter";
+import { assignPageNames, type PageNamingStrategy } from "./page-naming";
+import { PullRequestPublisher } from "./pull-request";
+import {
+	createRenderer,
+	type Heading,
+	type ListKind,
+	type OutputFormat,
+	type PageMetadata,
+	type Renderer,
+	type TextAnnotations,
+} from "./renderer";
+import { ConcurrencyLimiter, RequestScheduler } from "./request-scheduler";
+import {
+	hashContent,
+	MANIFEST_PATH,
+	type ManifestEntry,
+	type ManifestRedirect,
+	SyncManifest,
+} from "./sync-manifest";
+import { getActionTargetId, type WebhookAction } from "./webhook-handler";
+import { planWikiEdit, type RenderedBlock } from "./wiki-edits";
+import {
+	buildFooter,
+	buildSidebar,
+	FOOTER_PATH,
+	HOME_PATH,
+	isTopLevelPage,
+	SIDEBAR_PATH,
+} from "./wiki-navigation";
+import {
+	PushRejectedError,
+	type WikiChange,
+	WikiRepository,
+} from "./wiki-repository";
 
 export interface NotionSyncConfig {
 	notionApiToken: string;
 	githubToken: string;
 	wikiPathPrefix?: string;
 	maxDepth?: number;
+	/** Defaults to the current repository's `.wiki.git` remote, or the repository itself for the repo target */
+	wikiRemoteUrl?: string;
+	/** Where pages are written (default wiki) */
+	target?: SyncTarget;
+	/** Directory of the repository the repo target writes pages to (default `docs`) */
+	docsDirectory?: string;
+	/** Branch the repo target pushes to and opens its pull request from (default `notion-sync`) */
+	pullRequestBranch?: string;
+	/** Branch the pull request merges into, the repository's default branch when unset */
+	pullRequestBase?: string;
+	prune?: PruneMode;
+	/** Days to keep a redirect stub at a renamed page's old name, 0 disables stubs */
+	redirectRetentionDays?: number;
+	/** Filter applied when querying the rows of every synced database */
+	databaseFilter?: DatabaseQueryFilter;
+	/** Properties shown as columns on database index pages, all when empty */
+	databaseProperties?: string[];
+	/** Write `_Sidebar.md` with an outline of the synced pages (default true) */
+	generateSidebar?: boolean;
+	/** Write `Home.md` from the root page */
+	generateHome?: boolean;
+	/** Write `_Footer.md` with the time and run of the last sync (default true) */
+	generateFooter?: boolean;
+	/** Sibling subtrees fetched from Notion at once (default 3) */
+	concurrency?: number;
+	/** Also sync pages that are only @mentioned, each once (default false) */
+	followMentions?: boolean;
+	/** Render everything and log a diff of the wiki changes instead of pushing them */
+	dryRun?: boolean;
+	/** Format pages are rendered in (default gfm) */
+	outputFormat?: OutputFormat;
+	/** Write edits made on the wiki back to their Notion pages before syncing */
+	twoWaySync?: boolean;
+	/** How page names are made from titles (default slug) */
+	pageNaming?: PageNamingStrategy;
+	/** When set, only pages below a root that match one, and what is beneath them, are synced */
+	include?: PageRule[];
+	/** Pages skipped along with everything beneath them */
+	exclude?: PageRule[];
+}
+
+export type DatabaseQueryFilter = Parameters<
+	Client["databases"]["query"]
+>[0]["filter"];
+
+/**
+ * What happens to wiki pages whose Notion page is no longer part of the tree.
+ */
+export type PruneMode = "off" | "delete" | "archive";
+
+/**
+ * Pages go straight to the wiki, or into a docs directory of the repository
+ * through a pull request.
+ */
+export type SyncTarget = "wiki" | "repo";
+
+export const DEFAULT_DOCS_DIRECTORY = "docs";
+export const DEFAULT_PULL_REQUEST_BRANCH = "notion-sync";
+
+/** Put in front of archived page names, since GitHub wikis ignore directories */
+export const ARCHIVE_PREFIX = "Archived-";
+
+/**
+ * A Notion block with its nested children loaded. `children` is only populated
+ * for blocks that report `has_children` and aren't pages or databases in
+ * their own right.
+ */
+export type NotionBlock = (PartialBlockObjectResponse | BlockObjectResponse) & {
+	children?: NotionBlock[];
+};
+
+type TableBlockObjectResponse = Extract<BlockObjectResponse, { type: "table" }>;
+type TableRowBlockObjectResponse = Extract<
+	BlockObjectResponse,
+	{ type: "table_row" }
+>;
+
+type MediaBlockObjectResponse = Extract<
+	BlockObjectResponse,
+	{ type: "image" | "file" | "pdf" | "video" | "audio" }
+>;
+
+/**
+ * Page-level state shared by every block while a page is being converted.
+ */
+interface RenderContext {
+	headings: Heading[];
+	/** Collects the block types that had to be left out of the page */
+	unsupportedBlockTypes: Set<string>;
+}
+
+type PageProperty = PageObjectResponse["properties"][string];
+
+interface FetchedPage {
+	page: PageObjectResponse | DatabaseObjectResponse;
+	/** Left undefined when the page hasn't been edited since the last sync */
+	blocks?: NotionBlock[];
+	/** Set for databases, whose wiki page is an index of these rows */
+	rows?: PageObjectResponse[];
+	title: string;
+	/** Empty until every page of the run is fetched and named */
+	wikiPageName: string;
+	childPageIds: string[];
+	/** Pages linked through @mentions, which are links rather than children */
+	mentionedPageIds?: string[];
+	fetchDurationMs?: number;
+}
+
+interface NotionParent {
+	type: "page_id" | "database_id" | "block_id";
+	id: string;
+}
+
+const MAX_ANCESTOR_DEPTH = 50;
+
+/** Sibling subtrees fetched at once unless configured otherwise */
+const DEFAULT_CONCURRENCY = 3;
+
+/** Attempts at a batch before giving up on a wiki that keeps changing */
+const MAX_PUSH_ATTEMPTS = 3;
+
+/** `conflict` pages kept a wiki edit that clashes with their Notion page */
+type PageSyncOutcome = "created" | "updated" | "skipped" | "conflict";
+
+/**
+ * What happened to one page during a run.
+ */
+export interface PageResult {
+	pageId: string;
+	title: string;
+	/** Empty when the page failed before its name was known */
+	wikiPageName: string;
+	status: PageSyncOutcome | "failed";
+	error?: string;
+	/** Time spent fetching and rendering the page */
+	durationMs: number;
+	notionUrl?: string;
+	/** Block types left out of the page because they can't be rendered */
+	unsupportedBlockTypes?: string[];
+}
+
+/**
+ * What two-way sync did with a wiki page edited since the last sync.
+ */
+export interface WikiEditResult {
+	pageId: string;
+	title: string;
+	wikiPageName: string;
+	/** `planned` for edits a dry run would have written */
+	status: "pushed" | "planned" | "conflict" | "failed";
+	/** Why the edit wasn't written to Notion */
+	reason?: string;
+}
+
+/**
+ * A page the include and exclude rules left out, along with everything
+ * beneath it.
+ */
+export interface ExcludedPage {
+	pageId: string;
+	/** Empty when the page was left out before it was fetched */
+	title: string;
+	/** The rule that left it out, e.g. `excluded by title WIP*` */
+	reason: string;
+	notionUrl?: string;
 }
 
 export interface SyncResult {
 	pagesSynced: number;
+	pagesCreated: number;
+	pagesUpdated: number;
+	pagesSkipped: number;
+	pagesFailed: number;
+	pagesPruned: number;
+	/** Loops in the page graph, as the page IDs along each loop */
+	cycles: string[][];
+	pages: PageResult[];
+	/** Requests made to the Notion API, retries included */
+	apiCalls: number;
+	durationMs: number;
+	/** Set when nothing was pushed because the run was a dry run */
+	dryRun?: boolean;
+	/** The pull request the repo target opened or updated */
+	pullRequestUrl?: string;
+	/** Wiki edits found by two-way sync */
+	wikiEdits?: WikiEditResult[];
+	/** Subtrees left out by the include and exclude rules */
+	excludedPages?: ExcludedPage[];
 	status: "success" | "error" | "partial";
 }
 
 export class NotionSync {
 	private notion: Client;
-	private octokit: ReturnType<typeof getOctokit>;
+	private wiki: WikiRepository;
 	private config: NotionSyncConfig;
+	private assetStore: AssetStore;
+	/** Wiki page names of every synced page, keyed by normalized Notion ID */
+	private wikiPageNames = new Map<string, string>();
+	private manifest = new SyncManifest();
+	private failedFetches = 0;
+	/** Pages fetched so far this run, keyed by normalized Notion ID */
+	private visitedPageIds = new Set<string>();
+	private cycles: string[][] = [];
+	private pageResults: PageResult[] = [];
+	private pageFilter: PageFilter;
+	/** Pages matched by an include rule this run, keyed by normalized Notion ID */
+	private includedPageIds = new Set<string>();
+	private excludedPages: ExcludedPage[] = [];
+	/** Directory of the page being written, which links to other files are relative to */
+	private pageDirectory = "";
+	/** Wiki pages the page being written links to */
+	private linkedPageNames = new Set<string>();
+	private scheduler: RequestScheduler;
+	/** Bounds the pages fetched at once across every subtree of a run */
+	private pageFetches: ConcurrencyLimiter;
+	private pullRequests?: PullRequestPublisher;
+	private renderer: Renderer;
+	private wikiEdits: WikiEditResult[] = [];
+	/** Pages whose wiki edit must survive this run, keyed by normalized Notion ID */
+	private heldPageIds = new Set<string>();
+	/** Wiki edits written to Notion by an earlier attempt at the current batch */
+	private pushedWikiEdits = new Map<
+		string,
+		{ contentHash: string; lastEditedTime: string }
+	>();
 
 	constructor(config: NotionSyncConfig) {
 		this.config = config;
+		this.renderer = createRenderer(config.outputFormat);
+		this.pageFilter = new PageFilter(config.include, config.exclude);
 		this.notion = new Client({
 			auth: config.notionApiToken,
 		});
-		this.octokit = getOctokit(config.githubToken);
+		this.scheduler = new RequestScheduler();
+		this.pageFetches = new ConcurrencyLimiter(
+			config.concurrency || DEFAULT_CONCURRENCY,
+		);
+
+		if (config.target === "repo") {
+			const directory = config.docsDirectory || DEFAULT_DOCS_DIRECTORY;
+			const branch = config.pullRequestBranch || DEFAULT_PULL_REQUEST_BRANCH;
+			this.wiki = new WikiRepository({
+				remoteUrl: config.wikiRemoteUrl || getDefaultRepositoryRemoteUrl(),
+				token: config.githubToken,
+				branch,
+				createBranch: true,
+				baseBranch: config.pullRequestBase,
+				directory,
+			});
+			this.pullRequests = new PullRequestPublisher(
+				github.getOctokit(config.githubToken),
+				{
+					repository: process.env.GITHUB_REPOSITORY ?? "",
+					branch,
+					base: config.pullRequestBase,
+					directory,
+					fileExtension: this.renderer.fileExtension,
+				},
+			);
+		} else {
+			this.wiki = new WikiRepository({
+				remoteUrl: config.wikiRemoteUrl || getDefaultWikiRemoteUrl(),
+				token: config.githubToken,
+			});
+		}
+		this.assetStore = this.createAssetStore();
+	}
+
+	private createAssetStore(): AssetStore {
+		return new AssetStore((assetPath, content) =>
+			this.wiki.writeFile(assetPath, content),
+		);
 	}
 
 	async syncFromWebhook(pageId?: string): Promise<SyncResult> {
+		if (!pageId) {
+			core.error("Sync failed: No page ID provided for sync");
+			return this.emptyResult("error");
+		}
+
+		return this.syncBatch([{ type: "sync-page", pageId }]);
+	}
+
+	/**
+	 * Applies a batch of webhook actions as one sync: every affected subtree is
+	 * fetched and rendered together and the wiki gets a single commit. When
+	 * another run pushed to the wiki first, the batch is redone on a fresh
+	 * clone instead of overwriting that run's changes.
+	 */
+	async syncBatch(actions: WebhookAction[]): Promise<SyncResult> {
+		const startedAt = Date.now();
+		const requestsBefore = this.scheduler.requestCount;
+		this.pushedWikiEdits.clear();
+		const result = await this.syncBatchWithRetries(actions);
+
+		return {
+			...result,
+			apiCalls: this.scheduler.requestCount - requestsBefore,
+			durationMs: Date.now() - startedAt,
+			...(this.config.dryRun && { dryRun: true }),
+		};
+	}
+
+	private async syncBatchWithRetries(
+		actions: WebhookAction[],
+	): Promise<SyncResult> {
 		try {
-			core.info("Starting sync from webhook...");
+			core.info(`Starting sync of ${actions.length} change(s)...`);
 
-			if (!pageId) {
+			if (actions.length === 0) {
 				throw new Error("No page ID provided for sync");
 			}
 
-			core.info(`Syncing page: ${pageId}`);
+			for (let attempt = 1; ; attempt++) {
+				try {
+					return await this.applyActions(actions);
+				} catch (error) {
+					if (
+						!(error instanceof PushRejectedError) ||
+						attempt >= MAX_PUSH_ATTEMPTS
+					) {
+						throw error;
+					}
+					core.warning(
+						`Wiki changed during the sync, retrying on a fresh clone (attempt ${attempt + 1} of ${MAX_PUSH_ATTEMPTS})`,
+					);
+				}
+			}
+		} catch (error) {
+			core.error(`Sync failed: ${error}`);
+			return this.emptyResult("error");
+		}
+	}
+
+	private async applyActions(actions: WebhookAction[]): Promise<SyncResult> {
+		await this.openWiki();
+		if (this.config.twoWaySync) {
+			await this.pushWikiEdits();
+		}
 
-			const syncedPages = await this.syncPageRecursively(pageId, 0);
+		const rootIds: string[] = [];
+		const removedIds: string[] = [];
+		const movedOutIds: string[] = [];
 
-			return {
-				pagesSynced: syncedPages,
-				status: "success",
-			};
+		for (const action of actions) {
+			if (action.type === "verify") {
+				continue;
+			}
+
+			const targetId = getActionTargetId(action);
+			core.info(`Applying ${action.type}: ${targetId}`);
+
+			if (action.type === "delete-page") {
+				if (!(await this.existsInNotion(targetId))) {
+					removedIds.push(
+						...this.manifest.getSubtreeIds(normalizeNotionId(targetId)),
+					);
+					continue;
+				}
+				core.warning(
+					`Page ${targetId} still exists in Notion, syncing it instead of removing it`,
+				);
+			}
+
+			if (action.type === "move-page") {
+				const pageId = normalizeNotionId(targetId);
+				const parentId = action.parentId
+					? normalizeNotionId(action.parentId)
+					: undefined;
+				// Roots have no synced parent to move away from
+				const wasChild = this.manifest
+					.all()
+					.some((entry) => entry.childPageIds.includes(pageId));
+
+				// Files the page under its new parent before the parent is re-synced
+				this.manifest.moveChild(pageId, parentId);
+
+				if (wasChild && !(await this.isWithinSyncedTree(pageId, parentId))) {
+					core.info(`Page ${targetId} moved out of the synced tree`);
+					movedOutIds.push(...this.manifest.getSubtreeIds(pageId));
+					continue;
+				}
+			}
+
+			rootIds.push(await this.resolveSyncRoot(targetId));
+		}
+
+		// Deleted pages go even when pruning is off, archived in archive mode
+		const pagesRemoved = await this.pruneOrphanedPages(
+			removedIds.filter((id) => this.manifest.get(id)),
+			this.config.prune === "archive" ? "archive" : "delete",
+		);
+		const pagesMovedOut = await this.removeMovedOutPages(movedOutIds);
+
+		const syncRootIds = this.removeNestedRoots(rootIds);
+		const result = await this.syncSubtrees(syncRootIds);
+		const pullRequestUrl = await this.commitRun(syncRootIds);
+
+		const failedPushes = this.wikiEdits.some(
+			(edit) => edit.status === "failed",
+		);
+		return {
+			...result,
+			pagesPruned: result.pagesPruned + pagesRemoved + pagesMovedOut,
+			...(pullRequestUrl && { pullRequestUrl }),
+			...(this.config.twoWaySync && { wikiEdits: this.wikiEdits }),
+			...(failedPushes &&
+				result.status === "success" && { status: "partial" as const }),
+		};
+	}
+
+	private async openWiki(): Promise<void> {
+		await this.wiki.clone();
+		this.manifest = SyncManifest.parse(await this.wiki.readFile(MANIFEST_PATH));
+		// Pages outside this run are linked by what the last sync called them
+		this.wikiPageNames = new Map(
+			this.manifest.all().map((entry) => [entry.pageId, entry.wikiPageName]),
+		);
+		this.failedFetches = 0;
+		this.wikiEdits = [];
+		this.heldPageIds.clear();
+		// Assets stored by an earlier attempt never reached this clone
+		this.assetStore = this.createAssetStore();
+	}
+
+	/**
+	 * The nearest page at or above the given one that was synced before, so a
+	 * page created inside the synced tree is synced as part of its subtree
+	 * rather than as a root of its own.
+	 */
+	private async resolveSyncRoot(pageId: string): Promise<string> {
+		if (this.manifest.get(normalizeNotionId(pageId))) {
+			return pageId;
+		}
+
+		try {
+			const syncedAncestor = await this.findAncestor(
+				pageId,
+				(id) => !!this.manifest.get(id),
+			);
+			if (syncedAncestor) {
+				core.info(`Page ${pageId} belongs to synced page ${syncedAncestor}`);
+				return syncedAncestor;
+			}
 		} catch (error) {
-			core.error(`Sync failed: ${error}`);
-			return {
-				pagesSynced: 0,
-				status: "error",
+			core.warning(`Could not resolve the parents of ${pageId}: ${error}`);
+		}
+
+		return pageId;
+	}
+
+	/**
+	 * Whether a moved page still sits beneath a synced page other than itself
+	 * and its children. Pages whose parents can't be looked up count as
+	 * inside, so they're never removed by mistake.
+	 */
+	private async isWithinSyncedTree(
+		pageId: string,
+		parentId?: string,
+	): Promise<boolean> {
+		const subtree = this.manifest.getSubtreeIds(pageId);
+		try {
+			const parent: NotionParent | null = parentId
+				? { type: "page_id", id: parentId }
+				: await this.retrieveParent({ type: "page_id", id: pageId });
+			return (
+				!!parent &&
+				!!(await this.findAncestor(
+					parent,
+					(id) => !!this.manifest.get(id) && !subtree.has(id),
+				))
+			);
+		} catch (error) {
+			core.warning(`Could not resolve the parents of ${pageId}: ${error}`);
+			return true;
+		}
+	}
+
+	/**
+	 * Pages moved out of the synced tree are pruned like any other page that
+	 * left it. With pruning off their wiki pages stay, but are no longer
+	 * tracked, so they aren't synced as pages of their own.
+	 */
+	private async removeMovedOutPages(pageIds: string[]): Promise<number> {
+		const movedOutIds = pageIds.filter((id) => this.manifest.get(id));
+		if ((this.config.prune || "off") !== "off") {
+			return this.pruneOrphanedPages(movedOutIds);
+		}
+
+		for (const pageId of movedOutIds) {
+			if (!this.heldPageIds.has(pageId)) {
+				this.manifest.delete(pageId);
+			}
+		}
+		return 0;
+	}
+
+	/**
+	 * Drops roots that are already part of another root's synced subtree.
+	 */
+	private removeNestedRoots(rootIds: string[]): string[] {
+		let roots: string[] = [];
+
+		for (const rootId of new Set(rootIds.map(normalizeNotionId))) {
+			if (roots.some((root) => this.manifest.getSubtreeIds(root).has(rootId))) {
+				continue;
+			}
+
+			const subtree = this.manifest.getSubtreeIds(rootId);
+			roots = [...roots.filter((root) => !subtree.has(root)), rootId];
+		}
+
+		return roots;
+	}
+
+	/**
+	 * Fetches and renders the pages and everything beneath them, then prunes
+	 * pages previously synced beneath them that are gone.
+	 */
+	private async syncSubtrees(rootIds: string[]): Promise<SyncResult> {
+		const previouslySyncedIds = new Set(
+			rootIds.flatMap((rootId) => [...this.manifest.getSubtreeIds(rootId)]),
+		);
+
+		// Fetch every tree first so links between pages can be resolved
+		const pages: FetchedPage[] = [];
+		this.visitedPageIds.clear();
+		this.includedPageIds.clear();
+		this.cycles = [];
+		this.pageResults = [];
+		this.excludedPages = [];
+		for (const rootId of rootIds) {
+			await this.syncPageRecursively(rootId, 0, pages);
+		}
+		const namedPages = await this.nameFetchedPages(pages);
+
+		for (const fetchedPage of namedPages) {
+			const startedAt = Date.now();
+			const unsupportedBlockTypes = new Set<string>();
+			const pageResult = {
+				pageId: fetchedPage.page.id,
+				title: fetchedPage.title,
+				wikiPageName: fetchedPage.wikiPageName,
+				notionUrl: fetchedPage.page.url,
+			};
+			const duration = () =>
+				(fetchedPage.fetchDurationMs ?? 0) + Date.now() - startedAt;
+
+			try {
+				const status = await this.syncPageToWiki(
+					fetchedPage,
+					unsupportedBlockTypes,
+				);
+				this.pageResults.push({
+					...pageResult,
+					status,
+					durationMs: duration(),
+					...(unsupportedBlockTypes.size > 0 && {
+						unsupportedBlockTypes: [...unsupportedBlockTypes],
+					}),
+				});
+			} catch (error) {
+				core.error(`Failed to sync page ${fetchedPage.page.id}: ${error}`);
+				this.pageResults.push({
+					...pageResult,
+					status: "failed",
+					error: error instanceof Error ? error.message : String(error),
+					durationMs: duration(),
+				});
+			}
+		}
+
+		const count = (status: PageResult["status"]) =>
+			this.pageResults.filter((result) => result.status === status).length;
+		const counts = {
+			created: count("created"),
+			updated: count("updated"),
+			skipped: count("skipped"),
+			failed: count("failed"),
+		};
+
+		core.info(
+			`Pages created: ${counts.created}, updated: ${counts.updated}, unchanged: ${counts.skipped}, failed: ${counts.failed}`,
+		);
+
+		const visitedIds = new Set(
+			pages.map((fetchedPage) => normalizeNotionId(fetchedPage.page.id)),
+		);
+		const orphanedIds = [...previouslySyncedIds].filter(
+			(id) => !visitedIds.has(id) && this.manifest.get(id),
+		);
+		const pagesPruned = await this.pruneOrphanedPages(orphanedIds);
+		await this.expireRedirects();
+
+		return {
+			pagesSynced: counts.created + counts.updated + counts.skipped,
+			pagesCreated: counts.created,
+			pagesUpdated: counts.updated,
+			pagesSkipped: counts.skipped,
+			pagesFailed: counts.failed,
+			pagesPruned,
+			cycles: this.cycles,
+			pages: this.pageResults,
+			...(this.excludedPages.length > 0 && {
+				excludedPages: this.excludedPages,
+			}),
+			apiCalls: 0,
+			durationMs: 0,
+			status: getSyncStatus(this.pageResults),
+		};
+	}
+
+	/**
+	 * Writes the manifest and navigation pages and pushes everything from this
+	 * run to the wiki as one commit. A dry run logs the changes instead. For
+	 * the repo target, returns the URL of the pull request.
+	 */
+	private async commitRun(rootPageIds: string[]): Promise<string | undefined> {
+		await this.wiki.writeFile(MANIFEST_PATH, this.manifest.serialize());
+		await this.writeNavigationPages(rootPageIds);
+		const changes = await this.wiki.getChanges();
+
+		if (this.config.dryRun) {
+			await this.logDryRun(changes);
+			return;
+		}
+
+		// The footer changes every run, so only refresh it alongside real changes
+		if (changes.length > 0 && this.config.generateFooter !== false) {
+			await this.wiki.writeFile(
+				FOOTER_PATH,
+				buildFooter(new Date(), process.env.GITHUB_RUN_ID, getRunUrl()),
+			);
+		}
+		const pushed = await this.wiki.commitAndPush(
+			this.buildCommitMessage(changes),
+		);
+
+		if (pushed && this.pullRequests) {
+			const pageTitles = new Map(
+				this.manifest
+					.all()
+					.map((entry) => [this.pageFile(entry.wikiPageName), entry.title]),
+			);
+			return this.pullRequests.publish(pageTitles, getRunUrl());
+		}
+		return undefined;
+	}
+
+	private async logDryRun(changes: WikiChange[]): Promise<void> {
+		// The manifest is bookkeeping, its diff would only bury the pages
+		const pageChanges = changes.filter(({ path }) => path !== MANIFEST_PATH);
+
+		for (const change of pageChanges) {
+			core.startGroup(`${change.status}: ${change.path}`);
+			core.info(await this.wiki.getDiff(change.path));
+			core.endGroup();
+		}
+
+		const count = (status: WikiChange["status"]) =>
+			pageChanges.filter((change) => change.status === status).length;
+		core.info(
+			`Dry run: ${count("added")} file(s) would be added, ${count("modified")} modified and ${count("deleted")} deleted. Nothing was pushed to the wiki.`,
+		);
+	}
+
+	/**
+	 * Finds wiki pages that no longer match what the sync last wrote to them
+	 * and writes those edits to their Notion pages. Pages that were edited in
+	 * Notion too are held back as conflicts, so neither side is overwritten.
+	 */
+	private async pushWikiEdits(): Promise<void> {
+		for (const entry of this.manifest.all()) {
+			const content = await this.wiki.readFile(
+				this.pageFile(entry.wikiPageName),
+			);
+			if (content === null || hashContent(content) === entry.contentHash) {
+				continue;
+			}
+
+			core.info(`Wiki page edited outside the sync: ${entry.wikiPageName}`);
+			const result = {
+				pageId: entry.pageId,
+				title: entry.title,
+				wikiPageName: entry.wikiPageName,
 			};
+			try {
+				const conflict = await this.pushWikiEdit(entry, content);
+				if (conflict) {
+					core.warning(
+						`Conflict on wiki page ${entry.wikiPageName}: ${conflict}`,
+					);
+					this.heldPageIds.add(entry.pageId);
+					this.wikiEdits.push({
+						...result,
+						status: "conflict",
+						reason: conflict,
+					});
+				} else {
+					this.wikiEdits.push({
+						...result,
+						status: this.config.dryRun ? "planned" : "pushed",
+					});
+				}
+			} catch (error) {
+				// Part of the edit may have reached Notion, which the next run sees as a conflict
+				core.error(
+					`Failed to write the wiki edit of ${entry.wikiPageName} to Notion: ${error}`,
+				);
+				this.heldPageIds.add(entry.pageId);
+				this.wikiEdits.push({
+					...result,
+					status: "failed",
+					reason: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+
+	/**
+	 * Writes one wiki edit to Notion. Returns why it conflicts instead, when
+	 * it can't be written without losing changes.
+	 */
+	private async pushWikiEdit(
+		entry: ManifestEntry,
+		content: string,
+	): Promise<string | undefined> {
+		const contentHash = hashContent(content);
+		const pushed = this.pushedWikiEdits.get(entry.pageId);
+		if (pushed?.contentHash === contentHash) {
+			// An earlier attempt at this batch already wrote the edit to Notion
+			this.manifest.set({ ...entry, ...pushed });
+			return undefined;
+		}
+
+		let page: PageObjectResponse | DatabaseObjectResponse | null;
+		try {
+			page = await this.retrievePageOrDatabase(entry.pageId);
+		} catch (error) {
+			if (
+				!isNotionClientError(error) ||
+				error.code !== APIErrorCode.ObjectNotFound
+			) {
+				throw error;
+			}
+			page = null;
+		}
+
+		if (!page || page.archived || page.in_trash) {
+			return "the page was removed from Notion";
+		}
+		if (page.object === "database") {
+			return "database pages are generated from the database rows";
+		}
+		if (page.last_edited_time !== entry.lastEditedTime) {
+			return "the page was also edited in Notion since the last sync";
+		}
+
+		const blocks = await this.fetchBlockTree(page.id);
+		this.pageDirectory = path.posix.dirname(entry.wikiPageName);
+		const pageIds = new Map(
+			this.manifest
+				.all()
+				.map((other) => [this.linkToPage(other.wikiPageName), other.pageId]),
+		);
+		const parse = (markdown: string) =>
+			parseMarkdown(markdown, {
+				resolveLink: (url) => {
+					const pageId = pageIds.get(decodeURIComponent(url.split("#")[0]));
+					return pageId ? `https://www.notion.so/${pageId}` : undefined;
+				},
+			});
+
+		const plan = planWikiEdit(
+			await this.renderBlocksForDiff(page, entry, blocks, parse),
+			parse(content),
+		);
+		if ("conflict" in plan) {
+			return plan.conflict;
+		}
+
+		const added = plan.insertions.reduce(
+			(total, insertion) => total + insertion.blocks.length,
+			0,
+		);
+		const summary = `${plan.updates.length} block(s) updated, ${plan.deleteBlockIds.length} removed, ${added} added`;
+		if (this.config.dryRun) {
+			core.info(`Dry run: would update Notion page ${entry.title}: ${summary}`);
+			return undefined;
+		}
+
+		// Formatting changes parse into the same blocks, so Notion has them already
+		if (
+			plan.updates.length === 0 &&
+			plan.deleteBlockIds.length === 0 &&
+			added === 0
+		) {
+			this.manifest.set({ ...entry, contentHash });
+			core.info(`Wiki edit of ${entry.wikiPageName} leaves Notion unchanged`);
+			return undefined;
+		}
+
+		for (const { blockId, block } of plan.updates) {
+			await this.scheduler.run(
+				() =>
+					this.notion.blocks.update({
+						block_id: blockId,
+						...toBlockRequest(block),
+					} as UpdateBlockParameters),
+				`Updating block ${blockId}`,
+			);
+		}
+		// Blocks are only deleted once their replacements are in, so a failed
+		// write leaves content twice rather than losing it
+		for (const insertion of plan.insertions) {
+			await this.appendBlocks(
+				page.id,
+				insertion.blocks,
+				insertion.afterBlockId,
+			);
+		}
+		for (const blockId of plan.deleteBlockIds) {
+			await this.scheduler.run(
+				() => this.notion.blocks.delete({ block_id: blockId }),
+				`Deleting block ${blockId}`,
+			);
+		}
+
+		// The next run must not mistake this run's own Notion edit for a conflict
+		const updatedPage = await this.retrievePageOrDatabase(page.id);
+		const update = {
+			contentHash,
+			lastEditedTime: updatedPage?.last_edited_time ?? page.last_edited_time,
+		};
+		this.pushedWikiEdits.set(entry.pageId, update);
+		this.manifest.set({ ...entry, ...update });
+		core.info(`Wrote wiki edit to Notion page ${entry.title}: ${summary}`);
+		return undefined;
+	}
+
+	/**
+	 * Renders the page's top-level blocks one by one and parses them back, so
+	 * they can be lined up with the blocks of the edited wiki page.
+	 */
+	private async renderBlocksForDiff(
+		page: PageObjectResponse,
+		entry: ManifestEntry,
+		blocks: NotionBlock[],
+		parse: (markdown: string) => MarkdownBlock[],
+	): Promise<RenderedBlock[]> {
+		const metadata: PageMetadata = {
+			title: entry.title,
+			notionId: entry.pageId,
+			lastEditedTime: page.last_edited_time,
+			sidebarPosition: this.getSiblingPosition(entry.pageId),
+		};
+		const parts: RenderedBlock[] = [
+			{
+				description: "the page title",
+				writable: false,
+				rendered: parse(this.renderer.page(metadata, "")),
+			},
+		];
+
+		if (page.parent.type === "database_id") {
+			parts.push({
+				description: "the properties table",
+				writable: false,
+				rendered: parse(this.convertPropertiesToMarkdown(page)),
+			});
+		}
+
+		const context: RenderContext = {
+			headings: this.collectHeadings(blocks),
+			unsupportedBlockTypes: new Set(),
+		};
+		for (const block of blocks) {
+			if (!("type" in block)) {
+				continue;
+			}
+
+			const rendered = parse(await this.convertBlockToMarkdown(block, context));
+			parts.push({
+				blockId: block.id,
+				description: `a ${block.type.replace(/_/g, " ")} block`,
+				writable: rendered.length === 1 && isWritableBlock(block),
+				rendered,
+			});
+		}
+
+		return parts;
+	}
+
+	/**
+	 * Appends the blocks after `after`, or at the end of the parent, then
+	 * their children to each created block.
+	 */
+	private async appendBlocks(
+		parentId: string,
+		blocks: MarkdownBlock[],
+		after?: string,
+	): Promise<void> {
+		let previousId = after;
+
+		for (
+			let start = 0;
+			start < blocks.length;
+			start += MAX_BLOCKS_PER_REQUEST
+		) {
+			const chunk = blocks.slice(start, start + MAX_BLOCKS_PER_REQUEST);
+			const afterId = previousId;
+			const response = await this.scheduler.run(
+				() =>
+					this.notion.blocks.children.append({
+						block_id: parentId,
+						children: chunk.map(toBlockRequest),
+						...(afterId && { after: afterId }),
+					}),
+				`Appending blocks to ${parentId}`,
+			);
+
+			const created = response.results.slice(0, chunk.length);
+			for (const [index, block] of created.entries()) {
+				if (chunk[index].children.length > 0) {
+					await this.appendBlocks(block.id, chunk[index].children);
+				}
+			}
+			previousId = created[created.length - 1]?.id ?? previousId;
+		}
+	}
+
+	private emptyResult(status: SyncResult["status"]): SyncResult {
+		return {
+			pagesSynced: 0,
+			pagesCreated: 0,
+			pagesUpdated: 0,
+			pagesSkipped: 0,
+			pagesFailed: 0,
+			pagesPruned: 0,
+			cycles: [],
+			pages: [],
+			apiCalls: 0,
+			durationMs: 0,
+			status,
+		};
+	}
+
+	/**
+	 * Checks the page against the include and exclude rules and records it
+	 * for the sync report when it is left out. `path` holds the IDs of the
+	 * pages above it, and pages beneath an included page are included too.
+	 */
+	private isExcluded(
+		page: PageObjectResponse | DatabaseObjectResponse,
+		title: string,
+		path: string[],
+	): boolean {
+		const filterable = {
+			id: page.id,
+			title,
+			properties: page.object === "page" ? page.properties : undefined,
+			lastEditedBy: page.last_edited_by?.id,
+		};
+
+		const rule = this.pageFilter.excludedBy(filterable);
+		if (rule) {
+			this.excludePage(
+				page.id,
+				title,
+				`excluded by ${describePageRule(rule)}`,
+				page.url,
+			);
+			return true;
+		}
+
+		// Roots are synced whatever the include rules say
+		if (
+			!this.pageFilter.hasIncludeRules ||
+			path.length === 0 ||
+			path.some((id) => this.includedPageIds.has(id))
+		) {
+			return false;
+		}
+		if (this.pageFilter.includes(filterable)) {
+			this.includedPageIds.add(normalizeNotionId(page.id));
+			return false;
+		}
+
+		this.excludePage(
+			page.id,
+			title,
+			"not matched by any include rule",
+			page.url,
+		);
+		return true;
+	}
+
+	private excludePage(
+		pageId: string,
+		title: string,
+		reason: string,
+		notionUrl?: string,
+	): void {
+		core.info(
+			`Page ${title || pageId} is left out of the sync, ${reason}, skipping it and the pages beneath it`,
+		);
+		this.excludedPages.push({
+			pageId,
+			title,
+			reason,
+			...(notionUrl && { notionUrl }),
+		});
+	}
+
+	private async existsInNotion(pageId: string): Promise<boolean> {
+		try {
+			const page = await this.retrievePageOrDatabase(pageId);
+			return !!page && !page.archived && !page.in_trash;
+		} catch (error) {
+			if (
+				isNotionClientError(error) &&
+				error.code === APIErrorCode.ObjectNotFound
+			) {
+				return false;
+			}
+			throw error;
 		}
 	}
 
+	/**
+	 * Fetches the page and everything beneath it. `path` holds the IDs of the
+	 * pages that led here, so loops are reported instead of followed.
+	 */
 	private async syncPageRecursively(
 		pageId: string,
 		currentDepth: number,
-	): Promise<number> {
+		pages: FetchedPage[],
+		path: string[] = [],
+	): Promise<void> {
 		const maxDepth = this.config.maxDepth || 10;
 
 		if (currentDepth >= maxDepth) {
 			core.warning(`Reached maximum depth ${maxDepth}, stopping recursion`);
+			return;
+		}
+
+		const normalizedId = normalizeNotionId(pageId);
+		if (path.includes(normalizedId)) {
+			const cycle = [...path.slice(path.indexOf(normalizedId)), normalizedId];
+			this.cycles.push(cycle);
+			core.warning(
+				`Found a page cycle: ${cycle.map((id) => this.wikiPageNames.get(id) ?? id).join(" -> ")}`,
+			);
+			return;
+		}
+
+		// Each page is synced once per run, however many pages lead to it
+		if (this.visitedPageIds.has(normalizedId)) {
+			core.info(`Page ${pageId} was already synced in this run, skipping`);
+			return;
+		}
+		this.visitedPageIds.add(normalizedId);
+
+		// Page ID rules need nothing else, so excluded pages aren't even fetched
+		const excludedById = this.pageFilter.excludedBy({ id: pageId });
+		if (excludedById) {
+			this.excludePage(
+				pageId,
+				this.manifest.get(normalizedId)?.title ?? "",
+				`excluded by ${describePageRule(excludedById)}`,
+			);
+			return;
+		}
+
+		const startedAt = Date.now();
+		try {
+			// The limiter is shared by the whole run, so subtrees wait for it
+			// instead of each starting their own fetches
+			const fetchedPage = await this.pageFetches.run(() =>
+				this.fetchPage(pageId, currentDepth, path),
+			);
+			if (!fetchedPage) {
+				return;
+			}
+			pages.push(fetchedPage);
+
+			// Mentioned pages come after children, so they keep their place in the tree
+			const linkedPageIds = [
+				...fetchedPage.childPageIds,
+				...(this.config.followMentions
+					? (fetchedPage.mentionedPageIds ?? [])
+					: []),
+			];
+
+			await Promise.all(
+				linkedPageIds.map((linkedPageId) =>
+					this.syncPageRecursively(linkedPageId, currentDepth + 1, pages, [
+						...path,
+						normalizedId,
+					]),
+				),
+			);
+		} catch (error) {
+			if (
+				isNotionClientError(error) &&
+				error.code === APIErrorCode.ObjectNotFound
+			) {
+				core.info(`Page ${pageId} no longer exists in Notion, skipping`);
+				return;
+			}
+
+			this.failedFetches++;
+			core.error(`Failed to sync page ${pageId}: ${error}`);
+
+			// The last sync may still know what the page was called
+			const previousSync = this.manifest.get(normalizedId);
+			this.pageResults.push({
+				pageId,
+				title: previousSync?.title ?? "",
+				wikiPageName: previousSync?.wikiPageName ?? "",
+				status: "failed",
+				error: error instanceof Error ? error.message : String(error),
+				durationMs: Date.now() - startedAt,
+			});
+		}
+	}
+
+	/**
+	 * Fetches the page itself, or only reads it when the manifest shows it's
+	 * unchanged. Null when the page isn't synced.
+	 */
+	private async fetchPage(
+		pageId: string,
+		currentDepth: number,
+		path: string[],
+	): Promise<FetchedPage | null> {
+		const startedAt = Date.now();
+		const normalizedId = normalizeNotionId(pageId);
+
+		// Get the page content
+		const page = await this.retrievePageOrDatabase(pageId);
+
+		if (!page) {
+			core.warning(`Page ${pageId} is not a standard page, skipping`);
+			return null;
+		}
+
+		if (page.archived || page.in_trash) {
+			core.info(`Page ${pageId} is archived in Notion, skipping`);
+			return null;
+		}
+
+		const title =
+			page.object === "database"
+				? this.plainText({ rich_text: page.title }) || "Untitled"
+				: this.extractPageTitle(page);
+		if (this.isExcluded(page, title, path)) {
+			return null;
+		}
+
+		let fetchedPage: FetchedPage;
+		const previousSync = this.manifest.get(normalizeNotionId(page.id));
+
+		if (page.object === "database") {
+			// Row edits don't touch the database itself, so always query rows.
+			// Excluded rows are left off the index page too.
+			const rows = (await this.queryDatabaseRows(page.id)).filter(
+				(row) =>
+					!this.isExcluded(row, this.extractPageTitle(row), [
+						...path,
+						normalizedId,
+					]),
+			);
+			fetchedPage = {
+				page,
+				blocks: [],
+				rows,
+				title,
+				wikiPageName: "",
+				childPageIds: rows.map((row) => row.id),
+			};
+			core.info(
+				`Fetched database: ${pageId} with ${rows.length} row(s) (depth: ${currentDepth})`,
+			);
+		} else if (
+			previousSync &&
+			previousSync.lastEditedTime === page.last_edited_time &&
+			!this.config.dryRun
+		) {
+			// Unchanged since the last sync, so reuse what the manifest knows.
+			// Dry runs render it anyway, to preview changes to the rendering.
+			fetchedPage = {
+				page,
+				title,
+				wikiPageName: "",
+				childPageIds: previousSync.childPageIds,
+				mentionedPageIds: previousSync.mentionedPageIds,
+			};
+			core.info(`Page unchanged since last sync: ${pageId}`);
+		} else {
+			// Get page blocks (content), including nested children
+			const blocks = await this.fetchBlockTree(pageId);
+			fetchedPage = {
+				page,
+				blocks,
+				title,
+				wikiPageName: "",
+				childPageIds: this.extractChildPageIds(blocks),
+				mentionedPageIds: this.extractMentionedPageIds(blocks),
+			};
+			core.info(`Fetched page: ${pageId} (depth: ${currentDepth})`);
+		}
+
+		fetchedPage.fetchDurationMs = Date.now() - startedAt;
+		return fetchedPage;
+	}
+
+	/**
+	 * Walks up the page's ancestors and returns the allowed root it belongs to,
+	 * or null when it lives outside all of them.
+	 */
+	async findAllowedRoot(
+		pageId: string,
+		allowedRootIds: string[],
+	): Promise<string | null> {
+		const allowed = new Set(allowedRootIds.map(normalizeNotionId));
+		return this.findAncestor(pageId, (id) => allowed.has(id));
+	}
+
+	/**
+	 * The normalized ID of the page or parent itself or its nearest ancestor
+	 * that matches.
+	 */
+	private async findAncestor(
+		start: string | NotionParent,
+		matches: (normalizedId: string) => boolean,
+	): Promise<string | null> {
+		let current: NotionParent | null =
+			typeof start === "string" ? { type: "page_id", id: start } : start;
+
+		for (let depth = 0; current && depth < MAX_ANCESTOR_DEPTH; depth++) {
+			if (matches(normalizeNotionId(current.id))) {
+				return normalizeNotionId(current.id);
+			}
+			current = await this.retrieveParent(current);
+		}
+
+		return null;
+	}
+
+	private async retrieveParent(
+		child: NotionParent,
+	): Promise<NotionParent | null> {
+		let object: { parent: BlockObjectResponse["parent"] } | null;
+
+		if (child.type === "block_id") {
+			const block = await this.scheduler.run(
+				() => this.notion.blocks.retrieve({ block_id: child.id }),
+				`Retrieving block ${child.id}`,
+			);
+			object = "parent" in block ? block : null;
+		} else {
+			object = await this.retrievePageOrDatabase(child.id);
+		}
+
+		switch (object?.parent.type) {
+			case "page_id":
+				return { type: "page_id", id: object.parent.page_id };
+			case "database_id":
+				return { type: "database_id", id: object.parent.database_id };
+			case "block_id":
+				return { type: "block_id", id: object.parent.block_id };
+			default:
+				return null;
+		}
+	}
+
+	private async writeNavigationPages(rootPageIds: string[]): Promise<void> {
+		if (this.config.generateSidebar !== false) {
+			await this.wiki.writeFile(SIDEBAR_PATH, buildSidebar(this.manifest));
+		}
+
+		// Only a top-level root stands in for the whole wiki on the Home page
+		const rootPageId = rootPageIds.find((id) =>
+			isTopLevelPage(this.manifest, id),
+		);
+		const root = rootPageId && this.manifest.get(rootPageId);
+		if (this.config.generateHome && root) {
+			const rootContent = await this.wiki.readFile(
+				this.pageFile(root.wikiPageName),
+			);
+			if (rootContent !== null) {
+				await this.wiki.writeFile(HOME_PATH, rootContent);
+			}
+		}
+	}
+
+	/**
+	 * Deletes or archives wiki pages whose Notion source was removed, moved out
+	 * of the tree or archived. Returns the number of pages pruned.
+	 */
+	private async pruneOrphanedPages(
+		orphanedIds: string[],
+		mode: PruneMode = this.config.prune || "off",
+	): Promise<number> {
+		if (mode === "off" || orphanedIds.length === 0) {
+			return 0;
+		}
+
+		// A page that failed to load would look removed, so don't risk pruning it
+		if (this.failedFetches > 0) {
+			core.warning(
+				`Skipping pruning because ${this.failedFetches} page(s) failed to load`,
+			);
 			return 0;
 		}
 
-		let syncedCount = 0;
+		let pruned = 0;
+		for (const pageId of orphanedIds) {
+			const entry = this.manifest.get(pageId);
+			// A wiki edit of a page removed from Notion is a conflict, not garbage
+			if (!entry || this.heldPageIds.has(pageId)) {
+				continue;
+			}
+
+			const pagePath = this.pageFile(entry.wikiPageName);
+			if (mode === "archive") {
+				const content = await this.wiki.readFile(pagePath);
+				if (content !== null) {
+					const archivedOn = new Date().toISOString().slice(0, 10);
+					const archivedName = path.posix.join(
+						path.posix.dirname(entry.wikiPageName),
+						`${ARCHIVE_PREFIX}${path.posix.basename(entry.wikiPageName)}`,
+					);
+					await this.wiki.writeFile(
+						this.pageFile(archivedName),
+						this.renderer.notice(
+							content,
+							"Archived",
+							`the Notion source of this page was removed on ${archivedOn}.`,
+						),
+					);
+					this.manifest.setArchivedPage({
+						wikiPageName: archivedName,
+						title: entry.title,
+						archivedAt: archivedOn,
+					});
+				}
+			}
+
+			await this.wiki.deleteFile(pagePath);
+			this.manifest.delete(pageId);
+			pruned++;
+			core.info(
+				`${mode === "archive" ? "Archived" : "Deleted"} wiki page: ${entry.wikiPageName}`,
+			);
+		}
+
+		return pruned;
+	}
+
+	/**
+	 * Replaces a renamed page's old wiki page with a stub pointing at the new
+	 * name, so existing links and bookmarks keep working for a while.
+	 */
+	private async moveWikiPage(oldName: string, newName: string): Promise<void> {
+		const retentionDays = this.config.redirectRetentionDays ?? 30;
+
+		// Stubs that pointed at the old name now point straight at the new one
+		for (const redirect of this.manifest.getRedirects()) {
+			if (redirect.to === oldName) {
+				await this.writeRedirectStub({ ...redirect, to: newName });
+			}
+		}
+
+		if (retentionDays <= 0) {
+			await this.wiki.deleteFile(this.pageFile(oldName));
+			core.info(`Renamed wiki page: ${oldName} -> ${newName}`);
+			return;
+		}
+
+		await this.writeRedirectStub({
+			from: oldName,
+			to: newName,
+			createdAt: new Date().toISOString(),
+		});
+		core.info(`Renamed wiki page: ${oldName} -> ${newName} (redirect left)`);
+	}
+
+	private async writeRedirectStub(redirect: ManifestRedirect): Promise<void> {
+		this.pageDirectory = path.posix.dirname(redirect.from);
+		const link =
+			this.config.target === "repo"
+				? this.renderer.link(
+						this.renderer.text(redirect.to),
+						this.linkToPage(redirect.to),
+					)
+				: `[[${redirect.to}]]`;
+		await this.wiki.writeFile(
+			this.pageFile(redirect.from),
+			`${this.renderer.paragraph(`This page moved to ${link}.`, "")}\n`,
+		);
+		this.manifest.setRedirect(redirect);
+	}
+
+	/**
+	 * Removes redirect stubs older than the configured retention period.
+	 */
+	private async expireRedirects(now = new Date()): Promise<void> {
+		const retentionDays = this.config.redirectRetentionDays ?? 30;
+		const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
 
+		for (const redirect of this.manifest.getRedirects()) {
+			if (new Date(redirect.createdAt).getTime() > cutoff) {
+				continue;
+			}
+
+			// Pages outside this run may still link to the old name
+			const linkedFrom = this.manifest
+				.all()
+				.find((entry) => entry.linkedPageNames?.includes(redirect.from));
+			if (linkedFrom) {
+				core.info(
+					`Keeping redirect ${redirect.from}, ${linkedFrom.wikiPageName} still links to it`,
+				);
+				continue;
+			}
+
+			await this.wiki.deleteFile(this.pageFile(redirect.from));
+			this.manifest.deleteRedirect(redirect.from);
+			core.info(`Removed expired redirect: ${redirect.from}`);
+		}
+	}
+
+	/**
+	 * Retrieves a page, falling back to a database for IDs Notion rejects as
+	 * pages. Returns null for partial objects the integration can't read.
+	 */
+	private async retrievePageOrDatabase(
+		id: string,
+	): Promise<PageObjectResponse | DatabaseObjectResponse | null> {
 		try {
-			// Get the page content
-			const page = await this.notion.pages.retrieve({ page_id: pageId });
+			const page = await this.scheduler.run(
+				() => this.notion.pages.retrieve({ page_id: id }),
+				`Retrieving page ${id}`,
+			);
+			return "properties" in page ? page : null;
+		} catch (error) {
+			if (
+				!isNotionClientError(error) ||
+				error.code !== APIErrorCode.ValidationError
+			) {
+				throw error;
+			}
+		}
+
+		const database = await this.scheduler.run(
+			() => this.notion.databases.retrieve({ database_id: id }),
+			`Retrieving database ${id}`,
+		);
+		return "title" in database ? database : null;
+	}
+
+	private async queryDatabaseRows(
+		databaseId: string,
+	): Promise<PageObjectResponse[]> {
+		const rows: PageObjectResponse[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const startCursor = cursor;
+			const response = await this.scheduler.run(
+				() =>
+					this.notion.databases.query({
+						database_id: databaseId,
+						filter: this.config.databaseFilter,
+						page_size: 100,
+						start_cursor: startCursor,
+					}),
+				`Querying database ${databaseId}`,
+			);
+
+			for (const result of response.results) {
+				if (result.object === "page" && "properties" in result) {
+					rows.push(result);
+				}
+			}
+			cursor = response.has_more
+				? (response.next_cursor ?? undefined)
+				: undefined;
+		} while (cursor);
+
+		return rows;
+	}
 
-			if (!("properties" in page)) {
-				core.warning(`Page ${pageId} is not a standard page, skipping`);
-				return 0;
-			}
+	private async listBlockChildren(blockId: string): Promise<NotionBlock[]> {
+		const blocks: NotionBlock[] = [];
+		let cursor: string | undefined;
 
-			// Get page blocks (content)
-			const blocks = await this.notion.blocks.children.list({
-				block_id: pageId,
-				page_size: 100,
-			});
+		// Follow next_cursor until Notion reports there is nothing left
+		do {
+			const startCursor = cursor;
+			const response = await this.scheduler.run(
+				() =>
+					this.notion.blocks.children.list({
+						block_id: blockId,
+						page_size: 100,
+						start_cursor: startCursor,
+					}),
+				`Listing children of ${blockId}`,
+			);
 
-			// Convert page to markdown and sync to wiki
-			await this.syncPageToWiki(page, blocks.results);
-			syncedCount++;
+			blocks.push(...response.results);
+			cursor = response.has_more
+				? (response.next_cursor ?? undefined)
+				: undefined;
+		} while (cursor);
 
-			core.info(`Synced page: ${pageId} (depth: ${currentDepth})`);
+		return blocks;
+	}
 
-			// Find child pages and sync them recursively
-			const childPageIds = this.extractChildPageIds(blocks.results);
+	private async fetchBlockTree(blockId: string): Promise<NotionBlock[]> {
+		const blocks = await this.listBlockChildren(blockId);
 
-			for (const childPageId of childPageIds) {
-				const childSynced = await this.syncPageRecursively(
-					childPageId,
-					currentDepth + 1,
-				);
-				syncedCount += childSynced;
+		for (const block of blocks) {
+			// Child pages and databases are synced as pages of their own
+			if (
+				"type" in block &&
+				block.has_children &&
+				block.type !== "child_page" &&
+				block.type !== "child_database"
+			) {
+				// Duplicate synced blocks hold their content on the original block
+				const sourceId =
+					block.type === "synced_block" && block.synced_block.synced_from
+						? block.synced_block.synced_from.block_id
+						: block.id;
+				block.children = await this.fetchBlockTree(sourceId);
 			}
-		} catch (error) {
-			core.error(`Failed to sync page ${pageId}: ${error}`);
 		}
 
-		return syncedCount;
+		return blocks;
 	}
 
-	private extractChildPageIds(
-		blocks: (BlockObjectResponse | PartialBlockObjectResponse)[],
-	): string[] {
+	private extractChildPageIds(blocks: NotionBlock[]): string[] {
 		const pageIds: string[] = [];
 
 		for (const block of blocks) {
 			// Type guard to check if it's a BlockObjectResponse
 			if ("type" in block) {
-				// Look for child page blocks
-				if (block.type === "child_page") {
+				// Look for child page and database blocks
+				if (block.type === "child_page" || block.type === "child_database") {
 					pageIds.push(block.id);
 				}
+			}
+
+			// Child pages can be nested inside toggles, columns and the like
+			if (block.children) {
+				pageIds.push(...this.extractChildPageIds(block.children));
+			}
+		}
+
+		return pageIds;
+	}
+
+	/**
+	 * Pages @mentioned in the text of any block, in order of appearance.
+	 */
+	private extractMentionedPageIds(blocks: NotionBlock[]): string[] {
+		const pageIds = new Set<string>();
 
-				// Look for page mentions or links
-				if (
-					block.type === "paragraph" &&
-					"paragraph" in block &&
-					block.paragraph?.rich_text
-				) {
-					for (const richText of block.paragraph.rich_text) {
-						if (
-							richText.type === "mention" &&
-							richText.mention?.type === "page"
-						) {
-							pageIds.push(richText.mention.page.id);
-						}
+		for (const block of blocks) {
+			if ("type" in block) {
+				const content = (block as Record<string, unknown>)[block.type];
+				const richText =
+					content && typeof content === "object" && "rich_text" in content
+						? content.rich_text
+						: undefined;
+
+				for (const item of Array.isArray(richText) ? richText : []) {
+					const text = item as RichTextItemResponse;
+					if (text.type === "mention" && text.mention?.type === "page") {
+						pageIds.add(text.mention.page.id);
 					}
 				}
 			}
+
+			if (block.children) {
+				for (const pageId of this.extractMentionedPageIds(block.children)) {
+					pageIds.add(pageId);
+				}
+			}
 		}
 
-		return pageIds;
+		return [...pageIds];
 	}
 
 	private async syncPageToWiki(
-		page: PageObjectResponse,
-		blocks: (PartialBlockObjectResponse | BlockObjectResponse)[],
-	): Promise<void> {
+		{
+			page,
+			blocks,
+			rows,
+			title,
+			wikiPageName,
+			childPageIds,
+			mentionedPageIds,
+		}: FetchedPage,
+		unsupportedBlockTypes = new Set<string>(),
+	): Promise<PageSyncOutcome> {
 		try {
-			// Extract page title
-			const title = this.extractPageTitle(page);
-			const wikiPageName = this.generateWikiPageName(title);
+			const pageId = normalizeNotionId(page.id);
+			if (!blocks) {
+				return this.heldPageIds.has(pageId) ? "conflict" : "skipped";
+			}
+
+			this.pageDirectory = path.posix.dirname(wikiPageName);
+			this.linkedPageNames.clear();
+			const metadata: PageMetadata = {
+				title,
+				notionId: pageId,
+				lastEditedTime: page.last_edited_time,
+				sidebarPosition: this.getSiblingPosition(pageId),
+			};
+
+			// Render the page in the configured output format
+			let markdownContent: string;
+			if (page.object === "database") {
+				markdownContent = this.convertDatabaseToMarkdown(
+					page,
+					rows || [],
+					metadata,
+				);
+			} else {
+				const header =
+					page.parent.type === "database_id"
+						? this.convertPropertiesToMarkdown(page)
+						: "";
+				markdownContent = await this.convertBlocksToMarkdown(
+					blocks,
+					metadata,
+					header,
+					unsupportedBlockTypes,
+				);
+			}
+			const contentHash = hashContent(markdownContent);
 
-			// Convert blocks to markdown
-			const markdownContent = await this.convertBlocksToMarkdown(blocks, title);
+			const previousSync = this.manifest.get(pageId);
+
+			// Both sides changed, so the wiki edit stays until they agree again
+			if (this.heldPageIds.has(pageId) && previousSync) {
+				const wikiContent = await this.wiki.readFile(
+					this.pageFile(previousSync.wikiPageName),
+				);
+				if (wikiContent !== markdownContent) {
+					core.warning(`Kept the conflicting wiki edit of ${wikiPageName}`);
+					return "conflict";
+				}
+			}
+
+			const entry = {
+				pageId,
+				title,
+				wikiPageName,
+				lastEditedTime: page.last_edited_time,
+				contentHash,
+				childPageIds: childPageIds.map(normalizeNotionId),
+				...(mentionedPageIds?.length
+					? { mentionedPageIds: mentionedPageIds.map(normalizeNotionId) }
+					: {}),
+				...(this.linkedPageNames.size > 0
+					? { linkedPageNames: [...this.linkedPageNames].sort() }
+					: {}),
+			};
+
+			// Edits that don't change the rendered output leave the wiki alone
+			if (
+				previousSync?.contentHash === contentHash &&
+				previousSync.wikiPageName === wikiPageName &&
+				(await this.wiki.fileExists(this.pageFile(wikiPageName)))
+			) {
+				this.manifest.set(entry);
+				core.info(`Wiki page already up to date: ${wikiPageName}`);
+				return "skipped";
+			}
 
 			// Sync to GitHub wiki
 			await this.updateWikiPage(wikiPageName, markdownContent);
+			this.manifest.set(entry);
+			// A real page now lives here, so any stub at this name is gone
+			this.manifest.deleteRedirect(wikiPageName);
+
+			if (previousSync && previousSync.wikiPageName !== wikiPageName) {
+				await this.moveWikiPage(previousSync.wikiPageName, wikiPageName);
+			}
+
+			core.info(`Synced page: ${wikiPageName}`);
+			return previousSync ? "updated" : "created";
 		} catch (error) {
 			core.error(`Failed to sync page to wiki: ${error}`);
 			throw error;
 		}
 	}
 
+	/**
+	 * The page's 1-based position among its siblings in Notion. Parents are
+	 * rendered before their children, so the manifest already has their order.
+	 */
+	private getSiblingPosition(pageId: string): number | undefined {
+		for (const entry of this.manifest.all()) {
+			const index = entry.childPageIds.indexOf(pageId);
+			if (index !== -1) {
+				return index + 1;
+			}
+		}
+		return undefined;
+	}
+
 	private extractPageTitle(page: PageObjectResponse): string {
 		if (!page.properties) {
 			return "Untitled";
@@ -171,42 +1786,428 @@ export class NotionSync {
 		// Look for title property
 		for (const [_key, property] of Object.entries(page.properties)) {
 			if (property.type === "title" && property.title?.length > 0) {
-				return property.title[0].plain_text || "Untitled";
+				// Titles with mentions or mixed formatting come in several parts
+				return (
+					property.title.map((part) => part.plain_text).join("") || "Untitled"
+				);
 			}
 		}
 
 		return "Untitled";
 	}
 
-	private generateWikiPageName(title: string): string {
-		const prefix = this.config.wikiPathPrefix || "";
-		const sanitizedTitle = title
-			.replace(/[^a-zA-Z0-9\s-]/g, "") // Remove special characters
-			.replace(/\s+/g, "-") // Replace spaces with hyphens
-			.replace(/-+/g, "-") // Collapse multiple dashes to single dash
-			.toLowerCase();
+	/**
+	 * Names the fetched pages together, so pages that would get the same name
+	 * are told apart the same way whatever order they were fetched in. Pages
+	 * reused from the last sync are fetched after all when their name changed
+	 * or their file is gone. Returns the pages that can be written, leaving out
+	 * those whose blocks failed to load.
+	 */
+	private async nameFetchedPages(pages: FetchedPage[]): Promise<FetchedPage[]> {
+		const parentIds = new Map<string, string>();
+		for (const { page, childPageIds } of pages) {
+			for (const childId of childPageIds.map(normalizeNotionId)) {
+				if (!parentIds.has(childId)) {
+					parentIds.set(childId, normalizeNotionId(page.id));
+				}
+			}
+		}
+
+		// Pages synced on their own still sit beneath their parent from the last sync
+		const entries = this.manifest.all();
+		const names = assignPageNames(
+			pages.map(({ page, title }) => {
+				const pageId = normalizeNotionId(page.id);
+				const parentId =
+					parentIds.get(pageId) ??
+					entries.find((entry) => entry.childPageIds.includes(pageId))?.pageId;
+				return { pageId, title, parentId };
+			}),
+			new Map(entries.map((entry) => [entry.pageId, entry.wikiPageName])),
+			{
+				strategy: this.config.pageNaming,
+				prefix: this.config.wikiPathPrefix,
+				takenNames: this.manifest
+					.getArchivedPages()
+					.map((archivedPage) => archivedPage.wikiPageName),
+			},
+		);
+
+		// Unchanged pages linking to a page that is renamed or gone are rendered
+		// again, so their links don't rely on a redirect stub
+		const currentNames = new Set([
+			...names.values(),
+			...entries
+				.filter((entry) => !names.has(entry.pageId))
+				.map((entry) => entry.wikiPageName),
+		]);
+
+		const namedPages: FetchedPage[] = [];
+		for (const fetchedPage of pages) {
+			const pageId = normalizeNotionId(fetchedPage.page.id);
+			fetchedPage.wikiPageName = names.get(pageId) ?? "";
+			this.wikiPageNames.set(pageId, fetchedPage.wikiPageName);
+
+			const previousSync = this.manifest.get(pageId);
+			if (
+				!fetchedPage.blocks &&
+				(previousSync?.wikiPageName !== fetchedPage.wikiPageName ||
+					previousSync.linkedPageNames?.some(
+						(name) => !currentNames.has(name),
+					) ||
+					!(await this.wiki.fileExists(
+						this.pageFile(fetchedPage.wikiPageName),
+					)))
+			) {
+				const startedAt = Date.now();
+				try {
+					fetchedPage.blocks = await this.fetchBlockTree(fetchedPage.page.id);
+				} catch (error) {
+					// The page keeps its last synced file, so links go there
+					this.failedFetches++;
+					if (previousSync) {
+						this.wikiPageNames.set(pageId, previousSync.wikiPageName);
+					}
+					core.error(`Failed to sync page ${fetchedPage.page.id}: ${error}`);
+					this.pageResults.push({
+						pageId: fetchedPage.page.id,
+						title: fetchedPage.title,
+						wikiPageName: previousSync?.wikiPageName ?? "",
+						notionUrl: fetchedPage.page.url,
+						status: "failed",
+						error: error instanceof Error ? error.message : String(error),
+						durationMs:
+							(fetchedPage.fetchDurationMs ?? 0) + Date.now() - startedAt,
+					});
+					continue;
+				}
+			}
+			namedPages.push(fetchedPage);
+		}
 
-		return prefix ? `${prefix}-${sanitizedTitle}` : sanitizedTitle;
+		return namedPages;
 	}
 
 	private async convertBlocksToMarkdown(
-		blocks: (PartialBlockObjectResponse | BlockObjectResponse)[],
-		pageTitle: string,
+		blocks: NotionBlock[],
+		metadata: PageMetadata,
+		header = "",
+		unsupportedBlockTypes = new Set<string>(),
+	): Promise<string> {
+		const context: RenderContext = {
+			headings: this.collectHeadings(blocks),
+			unsupportedBlockTypes,
+		};
+		const body = await this.convertBlockListToMarkdown(blocks, context);
+		return this.renderer.page(metadata, this.renderer.blocks([header, body]));
+	}
+
+	/**
+	 * Renders a database as an index page with one table row per synced row,
+	 * linking each title to the row's own wiki page.
+	 */
+	private convertDatabaseToMarkdown(
+		database: DatabaseObjectResponse,
+		rows: PageObjectResponse[],
+		metadata: PageMetadata,
+	): string {
+		const titleProperty = Object.entries(database.properties).find(
+			([_name, property]) => property.type === "title",
+		)?.[0];
+		const selected = this.config.databaseProperties?.length
+			? this.config.databaseProperties.filter(
+					(name) => name in database.properties,
+				)
+			: Object.keys(database.properties);
+		// The title column always comes first since it links to the row pages
+		const columns = titleProperty
+			? [titleProperty, ...selected.filter((name) => name !== titleProperty)]
+			: selected;
+
+		const description = this.convertRichTextToMarkdown(database.description);
+
+		const tableRows = rows.map((row) =>
+			columns.map((name) => {
+				const property = row.properties[name];
+				if (!property) {
+					return "";
+				}
+
+				const value = this.formatPropertyValue(property);
+				if (name === titleProperty) {
+					const rowPageName = this.wikiPageNames.get(normalizeNotionId(row.id));
+					return rowPageName
+						? this.renderer.link(
+								value || "Untitled",
+								this.linkToSyncedPage(rowPageName),
+							)
+						: value;
+				}
+				return value;
+			}),
+		);
+
+		const table = this.renderer.table(
+			[columns.map((name) => this.renderer.text(name)), ...tableRows],
+			true,
+		);
+
+		return this.renderer.page(
+			metadata,
+			this.renderer.blocks([
+				description && this.renderer.paragraph(description, ""),
+				table,
+			]),
+		);
+	}
+
+	/**
+	 * Renders a database row's properties as a header table for its page.
+	 */
+	private convertPropertiesToMarkdown(page: PageObjectResponse): string {
+		const rows = Object.entries(page.properties)
+			.filter(([_name, property]) => property.type !== "title")
+			.map(([name, property]) => [
+				this.renderer.text(name),
+				this.formatPropertyValue(property),
+			]);
+
+		if (rows.length === 0) {
+			return "";
+		}
+
+		return this.renderer.table([["Property", "Value"], ...rows], true);
+	}
+
+	private formatPropertyValue(property: PageProperty): string {
+		const text = (value: string) => this.renderer.text(value);
+
+		switch (property.type) {
+			case "title":
+				return this.convertRichTextToMarkdown(property.title);
+			case "rich_text":
+				return this.convertRichTextToMarkdown(property.rich_text);
+			case "number":
+				return property.number === null ? "" : String(property.number);
+			case "select":
+				return text(property.select?.name ?? "");
+			case "status":
+				return text(property.status?.name ?? "");
+			case "multi_select":
+				return text(
+					property.multi_select.map((option) => option.name).join(", "),
+				);
+			case "date":
+				if (!property.date) {
+					return "";
+				}
+				return property.date.end
+					? `${formatNotionDate(property.date.start)} → ${formatNotionDate(property.date.end)}`
+					: formatNotionDate(property.date.start);
+			case "people":
+				return text(
+					property.people
+						.map((person) =>
+							"name" in person && person.name ? `@${person.name}` : "",
+						)
+						.filter(Boolean)
+						.join(", "),
+				);
+			case "checkbox":
+				return property.checkbox ? "✅" : "⬜";
+			case "url":
+				return property.url
+					? this.renderer.link(text(property.url), property.url)
+					: "";
+			case "email":
+				return text(property.email ?? "");
+			case "phone_number":
+				return text(property.phone_number ?? "");
+			case "files":
+				return property.files
+					.map((file) =>
+						file.type === "external"
+							? this.renderer.link(text(file.name), file.external.url)
+							: text(file.name),
+					)
+					.join(", ");
+			case "relation":
+				return property.relation
+					.map(({ id }) => {
+						const relatedPageName = this.wikiPageNames.get(
+							normalizeNotionId(id),
+						);
+						return relatedPageName
+							? this.renderer.link(
+									text(relatedPageName),
+									this.linkToSyncedPage(relatedPageName),
+								)
+							: "";
+					})
+					.filter(Boolean)
+					.join(", ");
+			case "formula":
+				switch (property.formula.type) {
+					case "string":
+						return text(property.formula.string ?? "");
+					case "number":
+						return property.formula.number === null
+							? ""
+							: String(property.formula.number);
+					case "boolean":
+						return property.formula.boolean ? "✅" : "⬜";
+					case "date":
+						return property.formula.date
+							? formatNotionDate(property.formula.date.start)
+							: "";
+					default:
+						return "";
+				}
+			case "rollup":
+				switch (property.rollup.type) {
+					case "number":
+						return property.rollup.number === null
+							? ""
+							: String(property.rollup.number);
+					case "date":
+						return property.rollup.date
+							? formatNotionDate(property.rollup.date.start)
+							: "";
+					case "array":
+						return String(property.rollup.array.length);
+					default:
+						return "";
+				}
+			case "unique_id":
+				return property.unique_id.number === null
+					? ""
+					: text(
+							`${property.unique_id.prefix ? `${property.unique_id.prefix}-` : ""}${property.unique_id.number}`,
+						);
+			case "created_time":
+				return formatNotionDate(property.created_time);
+			case "last_edited_time":
+				return formatNotionDate(property.last_edited_time);
+			case "created_by":
+				return "name" in property.created_by && property.created_by.name
+					? text(`@${property.created_by.name}`)
+					: "";
+			case "last_edited_by":
+				return "name" in property.last_edited_by && property.last_edited_by.name
+					? text(`@${property.last_edited_by.name}`)
+					: "";
+			default:
+				return "";
+		}
+	}
+
+	private async convertBlockListToMarkdown(
+		blocks: NotionBlock[],
+		context: RenderContext,
 	): Promise<string> {
-		let markdown = `# ${pageTitle}\n\n`;
+		const parts: string[] = [];
+		let listKind: ListKind | undefined;
+		let listItems: string[] = [];
+
+		// Consecutive list items stay together so they render as one list
+		const endList = () => {
+			if (listKind && listItems.length > 0) {
+				parts.push(this.renderer.list(listKind, listItems));
+			}
+			listItems = [];
+		};
+
+		for (const block of blocks) {
+			const blockMarkdown = await this.convertBlockToMarkdown(block, context);
+			const kind = this.getListKind(block);
+			if (kind !== listKind) {
+				endList();
+				listKind = kind;
+			}
+
+			if (!blockMarkdown) {
+				continue;
+			}
+
+			if (kind) {
+				listItems.push(blockMarkdown);
+			} else {
+				parts.push(blockMarkdown);
+			}
+		}
+		endList();
+
+		return this.renderer.blocks(parts);
+	}
+
+	private getListKind(block: NotionBlock): ListKind | undefined {
+		if (!("type" in block)) {
+			return undefined;
+		}
+
+		switch (block.type) {
+			case "bulleted_list_item":
+				return "bulleted";
+			case "numbered_list_item":
+				return "numbered";
+			case "to_do":
+				return "to_do";
+			default:
+				return undefined;
+		}
+	}
+
+	private collectHeadings(blocks: NotionBlock[]): Heading[] {
+		const headings: Heading[] = [];
+		const addHeading = (
+			level: number,
+			value: { rich_text?: RichTextItemResponse[] },
+		) => {
+			const text = this.plainText(value);
+			headings.push({ level, text, anchor: this.generateHeadingAnchor(text) });
+		};
 
 		for (const block of blocks) {
-			const blockMarkdown = await this.convertBlockToMarkdown(block);
-			if (blockMarkdown) {
-				markdown += `${blockMarkdown}\n\n`;
+			if (!("type" in block)) {
+				continue;
+			}
+
+			if (block.type === "heading_1") {
+				addHeading(1, block.heading_1);
+			} else if (block.type === "heading_2") {
+				addHeading(2, block.heading_2);
+			} else if (block.type === "heading_3") {
+				addHeading(3, block.heading_3);
 			}
+
+			if (block.children) {
+				headings.push(...this.collectHeadings(block.children));
+			}
+		}
+
+		return headings;
+	}
+
+	private plainText(value?: { rich_text?: RichTextItemResponse[] }): string {
+		return (value?.rich_text || [])
+			.map((richText) => richText.plain_text || "")
+			.join("");
+	}
+
+	private async convertChildrenToMarkdown(
+		block: NotionBlock,
+		context: RenderContext,
+	): Promise<string> {
+		if (!block.children?.length) {
+			return "";
 		}
 
-		return markdown.trim();
+		return this.convertBlockListToMarkdown(block.children, context);
 	}
 
 	private async convertBlockToMarkdown(
-		block: PartialBlockObjectResponse | BlockObjectResponse,
+		block: NotionBlock,
+		context: RenderContext = { headings: [], unsupportedBlockTypes: new Set() },
 	): Promise<string> {
 		// Type guard to ensure we have a complete block object
 		if (!("type" in block)) {
@@ -216,91 +2217,307 @@ export class NotionSync {
 
 		switch (block.type) {
 			case "paragraph":
-				return this.convertRichTextToMarkdown(block.paragraph?.rich_text || []);
+				return this.renderer.paragraph(
+					this.convertRichTextToMarkdown(block.paragraph?.rich_text || []),
+					await this.convertChildrenToMarkdown(block, context),
+				);
 
-			case "heading_1": {
-				const h1Text = this.convertRichTextToMarkdown(
-					block.heading_1?.rich_text || [],
+			case "heading_1":
+			case "heading_2":
+			case "heading_3": {
+				const heading =
+					block.type === "heading_1"
+						? block.heading_1
+						: block.type === "heading_2"
+							? block.heading_2
+							: block.heading_3;
+				return this.renderer.heading(
+					Number(block.type.slice(-1)),
+					this.convertRichTextToMarkdown(heading?.rich_text || []),
+					this.generateHeadingAnchor(this.plainText(heading)),
+					// Toggleable headings hold their content as children
+					await this.convertChildrenToMarkdown(block, context),
 				);
-				return `# ${h1Text}`;
 			}
 
-			case "heading_2": {
-				const h2Text = this.convertRichTextToMarkdown(
-					block.heading_2?.rich_text || [],
+			case "bulleted_list_item":
+				return this.renderer.listItem(
+					"bulleted",
+					this.convertRichTextToMarkdown(
+						block.bulleted_list_item?.rich_text || [],
+					),
+					await this.convertChildrenToMarkdown(block, context),
 				);
-				return `## ${h2Text}`;
-			}
 
-			case "heading_3": {
-				const h3Text = this.convertRichTextToMarkdown(
-					block.heading_3?.rich_text || [],
+			case "numbered_list_item":
+				return this.renderer.listItem(
+					"numbered",
+					this.convertRichTextToMarkdown(
+						block.numbered_list_item?.rich_text || [],
+					),
+					await this.convertChildrenToMarkdown(block, context),
 				);
-				return `### ${h3Text}`;
-			}
 
-			case "bulleted_list_item": {
-				const bulletText = this.convertRichTextToMarkdown(
-					block.bulleted_list_item?.rich_text || [],
+			case "to_do":
+				return this.renderer.listItem(
+					"to_do",
+					this.convertRichTextToMarkdown(block.to_do?.rich_text || []),
+					await this.convertChildrenToMarkdown(block, context),
+					block.to_do?.checked,
 				);
-				return `- ${bulletText}`;
-			}
 
-			case "numbered_list_item": {
-				const numberText = this.convertRichTextToMarkdown(
-					block.numbered_list_item?.rich_text || [],
+			case "toggle":
+				return this.renderer.toggle(
+					this.convertRichTextToMarkdown(block.toggle?.rich_text || []),
+					await this.convertChildrenToMarkdown(block, context),
+				);
+
+			case "code":
+				return this.renderer.code(
+					this.plainText(block.code),
+					block.code?.language || "",
+				);
+
+			case "quote":
+				return this.renderer.quote(
+					this.convertRichTextToMarkdown(block.quote?.rich_text || []),
+					await this.convertChildrenToMarkdown(block, context),
+				);
+
+			case "callout":
+				return this.renderer.callout(
+					this.convertRichTextToMarkdown(block.callout?.rich_text || []),
+					await this.convertChildrenToMarkdown(block, context),
+					{
+						icon:
+							block.callout?.icon?.type === "emoji"
+								? block.callout.icon.emoji
+								: undefined,
+						color: block.callout?.color,
+					},
 				);
-				return `1. ${numberText}`;
-			}
 
-			case "code": {
-				const codeText = this.convertRichTextToMarkdown(
-					block.code?.rich_text || [],
+			case "table":
+				return this.convertTableToMarkdown(block);
+
+			case "image":
+			case "file":
+			case "pdf":
+			case "video":
+			case "audio":
+				return this.convertMediaToMarkdown(block);
+
+			case "column_list":
+			case "column":
+			case "synced_block":
+				// Layout containers have no content of their own
+				return this.convertBlockListToMarkdown(block.children || [], context);
+
+			case "bookmark": {
+				const url = block.bookmark?.url || "";
+				const caption = this.convertRichTextToMarkdown(
+					block.bookmark?.caption || [],
 				);
-				const language = block.code?.language || "";
-				return `\`\`\`${language}\n${codeText}\n\`\`\``;
+				return url
+					? this.renderer.paragraph(
+							this.renderer.link(caption || this.renderer.text(url), url),
+							"",
+						)
+					: "";
 			}
 
-			case "quote": {
-				const quoteText = this.convertRichTextToMarkdown(
-					block.quote?.rich_text || [],
+			case "embed": {
+				const url = block.embed?.url || "";
+				const caption = this.convertRichTextToMarkdown(
+					block.embed?.caption || [],
 				);
-				return `> ${quoteText}`;
+				return url
+					? this.renderer.paragraph(
+							this.renderer.link(caption || this.renderer.text(url), url),
+							"",
+						)
+					: "";
+			}
+
+			case "link_preview": {
+				const url = block.link_preview?.url || "";
+				return url
+					? this.renderer.paragraph(
+							this.renderer.link(this.renderer.text(url), url),
+							"",
+						)
+					: "";
 			}
 
+			case "equation":
+				return this.renderer.equation(block.equation?.expression || "");
+
+			case "table_of_contents":
+				return this.renderer.tableOfContents(context.headings);
+
 			case "divider":
-				return "---";
+				return this.renderer.divider();
+
+			case "child_page":
+			case "child_database": {
+				// Child pages are synced on their own, so they're linked like in Notion
+				const title =
+					block.type === "child_page"
+						? block.child_page.title
+						: block.child_database.title;
+				const pageName = this.wikiPageNames.get(normalizeNotionId(block.id));
+				return pageName
+					? this.renderer.paragraph(
+							this.renderer.link(
+								this.renderer.text(title || "Untitled"),
+								this.linkToSyncedPage(pageName),
+							),
+							"",
+						)
+					: "";
+			}
 
 			default:
 				core.warning(`Unsupported block type: ${block.type}`);
+				context.unsupportedBlockTypes.add(block.type);
 				return "";
 		}
 	}
 
+	private convertTableToMarkdown(
+		block: TableBlockObjectResponse & NotionBlock,
+	) {
+		const rows = (block.children || [])
+			.filter(
+				(row): row is TableRowBlockObjectResponse =>
+					"type" in row && row.type === "table_row",
+			)
+			.map((row) =>
+				row.table_row.cells.map((cell) => this.convertRichTextToMarkdown(cell)),
+			);
+
+		const width = block.table?.table_width || rows[0]?.length || 0;
+		if (width === 0) {
+			return "";
+		}
+
+		// Every row spans the full table, even where Notion left cells out
+		const padded = rows.map((cells) =>
+			Array.from({ length: width }, (_, i) => cells[i] || ""),
+		);
+		// A table without rows still keeps its width through a blank header
+		if (padded.length === 0) {
+			return this.renderer.table(
+				[Array.from({ length: width }, () => "")],
+				true,
+			);
+		}
+		return this.renderer.table(padded, !!block.table?.has_column_header);
+	}
+
+	private async convertMediaToMarkdown(
+		block: MediaBlockObjectResponse,
+	): Promise<string> {
+		const media = this.getMediaContent(block);
+		const caption = this.convertRichTextToMarkdown(media.caption || []);
+
+		let url =
+			media.type === "file" ? media.file.url : (media.external?.url ?? "");
+		if (!url) {
+			return "";
+		}
+
+		// Only Notion-hosted files expire, external URLs are kept as they are
+		if (media.type === "file") {
+			try {
+				url = this.relativeLink(await this.assetStore.store(url));
+			} catch (error) {
+				core.warning(
+					`Failed to store ${block.type} asset ${block.id}: ${error}`,
+				);
+			}
+		}
+
+		if (block.type === "image") {
+			const altText = this.plainText({ rich_text: media.caption }) || "image";
+			return this.renderer.image(url, altText, caption);
+		}
+
+		const name =
+			"name" in media && typeof media.name === "string" && media.name
+				? media.name
+				: decodeURIComponent(url.split("?")[0].split("/").pop() || block.type);
+		return this.renderer.file(url, name, caption);
+	}
+
+	private getMediaContent(block: MediaBlockObjectResponse) {
+		switch (block.type) {
+			case "image":
+				return block.image;
+			case "file":
+				return block.file;
+			case "pdf":
+				return block.pdf;
+			case "video":
+				return block.video;
+			case "audio":
+				return block.audio;
+		}
+	}
+
+	private generateHeadingAnchor(text: string): string {
+		// Mirrors the anchors GitHub generates for rendered Markdown headings
+		return text
+			.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}\s_-]/gu, "")
+			.replace(/\s/g, "-");
+	}
+
 	private convertRichTextToMarkdown(
 		richTextArray: RichTextItemResponse[],
 	): string {
-		return richTextArray
-			.map((richText) => {
-				let text = richText.plain_text || "";
+		// Notion splits text where anything changes, including the formatting it
+		// doesn't show, so neighbouring runs that render the same are joined
+		const runs: {
+			text: string;
+			annotations: TextAnnotations;
+			href: string | null;
+			equation: boolean;
+		}[] = [];
+		for (const richText of richTextArray) {
+			const run = {
+				text:
+					richText.type === "equation" && richText.equation
+						? richText.equation.expression
+						: this.convertMentionToText(richText),
+				annotations: richText.annotations ?? {},
+				href: this.resolveLink(richText),
+				equation: richText.type === "equation",
+			};
 
-				if (richText.annotations) {
-					if (richText.annotations.bold) {
-						text = `**${text}**`;
-					}
-					if (richText.annotations.italic) {
-						text = `*${text}*`;
-					}
-					if (richText.annotations.code) {
-						text = `\`${text}\``;
-					}
-					if (richText.annotations.strikethrough) {
-						text = `~~${text}~~`;
-					}
-				}
+			const previous = runs[runs.length - 1];
+			if (
+				previous &&
+				!previous.equation &&
+				!run.equation &&
+				previous.href === run.href &&
+				sameAnnotations(previous.annotations, run.annotations)
+			) {
+				previous.text += run.text;
+			} else {
+				runs.push(run);
+			}
+		}
 
-				if (richText.href) {
-					text = `[${text}](${richText.href})`;
+		return runs
+			.map((run) => {
+				let text = run.equation
+					? this.renderer.inlineEquation(run.text)
+					: this.renderer.annotatedText(run.text, run.annotations);
+
+				if (run.href) {
+					text = this.renderer.link(text, run.href);
 				}
 
 				return text;
@@ -308,48 +2525,287 @@ export class NotionSync {
 			.join("");
 	}
 
-	private async updateWikiPage(
-		pageName: string,
-		content: string,
-	): Promise<void> {
-		try {
-			const [owner, repo] = (process.env.GITHUB_REPOSITORY || "").split("/");
+	private convertMentionToText(richText: RichTextItemResponse): string {
+		const plainText = richText.plain_text || "";
+
+		if (richText.type !== "mention" || !richText.mention) {
+			return plainText;
+		}
 
-			if (!owner || !repo) {
-				throw new Error("Unable to determine repository owner and name");
+		const mention = richText.mention;
+		switch (mention.type) {
+			case "user": {
+				const name =
+					"name" in mention.user && mention.user.name
+						? mention.user.name
+						: plainText.replace(/^@/, "");
+				return name ? `@${name}` : plainText;
 			}
 
-			// Try to get existing wiki page
-			let sha: string | undefined;
-			try {
-				const existingPage = await this.octokit.rest.repos.getContent({
-					owner,
-					repo: `${repo}.wiki`,
-					path: `${pageName}.md`,
-				});
+			case "date": {
+				const start = formatNotionDate(mention.date.start);
+				return mention.date.end
+					? `${start} → ${formatNotionDate(mention.date.end)}`
+					: start;
+			}
 
-				if (existingPage?.data && "sha" in existingPage.data) {
-					sha = existingPage?.data.sha;
-				}
-			} catch (_error) {
-				// Page doesn't exist, will create new one
-				core.info(`Creating new wiki page: ${pageName}`);
-			}
-
-			// Create or update the wiki page
-			await this.octokit.rest.repos.createOrUpdateFileContents({
-				owner,
-				repo: `${repo}.wiki`,
-				path: `${pageName}.md`,
-				message: `Update ${pageName} from Notion sync`,
-				content: Buffer.from(content).toString("base64"),
-				sha,
-			});
+			default:
+				return plainText;
+		}
+	}
+
+	/**
+	 * Points links and mentions of synced pages at their wiki page, keeping the
+	 * Notion URL only for pages outside the synced tree.
+	 */
+	private resolveLink(richText: RichTextItemResponse): string | null {
+		if (richText.type === "mention" && richText.mention) {
+			const mention = richText.mention;
+			const targetId =
+				mention.type === "page"
+					? mention.page.id
+					: mention.type === "database"
+						? mention.database.id
+						: null;
+
+			if (targetId) {
+				const pageName = this.wikiPageNames.get(normalizeNotionId(targetId));
+				return pageName
+					? this.linkToSyncedPage(pageName)
+					: (richText.href ??
+							`https://www.notion.so/${normalizeNotionId(targetId)}`);
+			}
+		}
+
+		if (!richText.href) {
+			return null;
+		}
+
+		const linkedPageId = extractNotionPageIdFromUrl(richText.href);
+		if (linkedPageId) {
+			const pageName = this.wikiPageNames.get(linkedPageId);
+			return pageName ? this.linkToSyncedPage(pageName) : richText.href;
+		}
+
+		return richText.href;
+	}
+
+	/** Links from page content, recorded in the page's manifest entry */
+	private linkToSyncedPage(pageName: string): string {
+		this.linkedPageNames.add(pageName);
+		return this.linkToPage(pageName);
+	}
 
-			core.info(`Successfully updated wiki page: ${pageName}`);
+	/** Wikis link pages by name, a docs directory by file */
+	private linkToPage(pageName: string): string {
+		return this.config.target === "repo"
+			? this.relativeLink(this.pageFile(pageName))
+			: pageName;
+	}
+
+	/**
+	 * Path of a file of the wiki from the page being written, which only
+	 * differs from the path itself for pages in a directory.
+	 */
+	private relativeLink(filePath: string): string {
+		return path.posix.relative(this.pageDirectory, filePath);
+	}
+
+	private pageFile(pageName: string): string {
+		return `${pageName}${this.renderer.fileExtension}`;
+	}
+
+	private async updateWikiPage(
+		pageName: string,
+		content: string,
+	): Promise<void> {
+		try {
+			await this.wiki.writeFile(this.pageFile(pageName), content);
+			core.info(`Wrote wiki page: ${pageName}`);
 		} catch (error) {
 			core.error(`Failed to update wiki page ${pageName}: ${error}`);
 			throw error;
 		}
 	}
+
+	private buildCommitMessage(changes: WikiChange[]): string {
+		const extension = this.renderer.fileExtension;
+		// Navigation pages and redirect stubs only follow the synced pages
+		const generatedPaths = new Set([
+			SIDEBAR_PATH,
+			FOOTER_PATH,
+			HOME_PATH,
+			...this.manifest
+				.getRedirects()
+				.map((redirect) => this.pageFile(redirect.from)),
+		]);
+		const pageChanges = changes.filter(
+			(change) =>
+				change.path.endsWith(extension) && !generatedPaths.has(change.path),
+		);
+
+		if (pageChanges.length === 0) {
+			return "Update the Notion sync manifest";
+		}
+
+		const summary = `Sync ${pageChanges.length} page(s) from Notion`;
+		const lines = pageChanges.map(
+			(change) =>
+				`- ${change.status}: ${change.path.slice(0, -extension.length)}`,
+		);
+		return `${summary}\n\n${lines.join("\n")}`;
+	}
+}
+
+/**
+ * Whether the block and everything nested in it can be written back from
+ * Markdown, so deleting and recreating it loses nothing.
+ */
+function isWritableBlock(block: NotionBlock): boolean {
+	if (
+		!("type" in block) ||
+		!(WRITABLE_BLOCK_TYPES as readonly string[]).includes(block.type)
+	) {
+		return false;
+	}
+
+	// Mentions, underlines, colors and equations don't survive parsing the
+	// wiki page
+	const value = (block as Record<string, unknown>)[block.type] as
+		| { rich_text?: RichTextItemResponse[] }
+		| undefined;
+	if (
+		value?.rich_text?.some(
+			(text) =>
+				text.type === "equation" ||
+				text.type === "mention" ||
+				text.annotations?.underline ||
+				(text.annotations?.color ?? "default") !== "default",
+		)
+	) {
+		return false;
+	}
+
+	// Toggleable headings hide their children on the wiki
+	const heading =
+		block.type === "heading_1"
+			? block.heading_1
+			: block.type === "heading_2"
+				? block.heading_2
+				: block.type === "heading_3"
+					? block.heading_3
+					: undefined;
+	if (heading?.is_toggleable) {
+		return false;
+	}
+
+	return (block.children ?? []).every(isWritableBlock);
+}
+
+function sameAnnotations(a: TextAnnotations, b: TextAnnotations): boolean {
+	return (
+		!!a.bold === !!b.bold &&
+		!!a.italic === !!b.italic &&
+		!!a.strikethrough === !!b.strikethrough &&
+		!!a.underline === !!b.underline &&
+		!!a.code === !!b.code &&
+		(a.color ?? "default") === (b.color ?? "default")
+	);
+}
+
+function normalizeNotionId(id: string): string {
+	return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * A run succeeded when no page failed, and failed outright when every page
+ * did. Anything in between is partial.
+ */
+export function getSyncStatus(pages: PageResult[]): SyncResult["status"] {
+	const failed = pages.filter((page) => page.status === "failed").length;
+	if (failed === 0) {
+		return "success";
+	}
+	return failed === pages.length ? "error" : "partial";
+}
+
+/**
+ * Combines the results of syncs run one after another, like the roots of a
+ * config file, into the result of the whole run.
+ */
+export function mergeSyncResults(results: SyncResult[]): SyncResult {
+	const sum = (count: (result: SyncResult) => number) =>
+		results.reduce((total, result) => total + count(result), 0);
+	const statuses = new Set(results.map((result) => result.status));
+	const wikiEdits = results.flatMap((result) => result.wikiEdits ?? []);
+	const excludedPages = results.flatMap((result) => result.excludedPages ?? []);
+	const pullRequestUrls = [
+		...new Set(results.flatMap((result) => result.pullRequestUrl ?? [])),
+	];
+
+	return {
+		pagesSynced: sum((result) => result.pagesSynced),
+		pagesCreated: sum((result) => result.pagesCreated),
+		pagesUpdated: sum((result) => result.pagesUpdated),
+		pagesSkipped: sum((result) => result.pagesSkipped),
+		pagesFailed: sum((result) => result.pagesFailed),
+		pagesPruned: sum((result) => result.pagesPruned),
+		cycles: results.flatMap((result) => result.cycles),
+		pages: results.flatMap((result) => result.pages),
+		apiCalls: sum((result) => result.apiCalls),
+		durationMs: sum((result) => result.durationMs),
+		...(results.some((result) => result.dryRun) && { dryRun: true }),
+		// Roots sharing a sync branch share their pull request
+		...(pullRequestUrls.length > 0 && {
+			pullRequestUrl: pullRequestUrls.join(" "),
+		}),
+		...(results.some((result) => result.wikiEdits) && { wikiEdits }),
+		...(excludedPages.length > 0 && { excludedPages }),
+		status: statuses.size > 1 ? "partial" : (results[0]?.status ?? "success"),
+	};
+}
+
+/**
+ * Extracts the page ID from notion.so URLs and Notion's relative page links,
+ * e.g. `https://www.notion.so/Design-Doc-0123...cdef?pvs=4` or `/0123...cdef`.
+ */
+function extractNotionPageIdFromUrl(url: string): string | null {
+	const isNotionUrl =
+		url.startsWith("/") ||
+		/^https?:\/\/([\w-]+\.)?notion\.(so|site)\//i.test(url);
+	if (!isNotionUrl) {
+		return null;
+	}
+
+	const path = url.split(/[?#]/)[0];
+	const match = path.match(
+		/([0-9a-f]{32}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/?$/i,
+	);
+	return match ? normalizeNotionId(match[1]) : null;
+}
+
+function formatNotionDate(value: string): string {
+	// Dates without a time are already readable, datetimes drop seconds and offset
+	if (!value.includes("T")) {
+		return value;
+	}
+	return `${value.slice(0, 10)} ${value.slice(11, 16)}`;
+}
+
+function getDefaultWikiRemoteUrl(): string {
+	const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+	return `${serverUrl}/${process.env.GITHUB_REPOSITORY}.wiki.git`;
+}
+
+function getDefaultRepositoryRemoteUrl(): string {
+	const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+	return `${serverUrl}/${process.env.GITHUB_REPOSITORY}.git`;
+}
+
+function getRunUrl(): string | undefined {
+	const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env;
+	if (!GITHUB_REPOSITORY || !GITHUB_RUN_ID) {
+		return undefined;
+	}
+	return `${GITHUB_SERVER_URL || "https://github.com"}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`;
 }
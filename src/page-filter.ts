@@ -0,0 +1,232 @@
+import type { PageObjectResponse } from "@notionhq/client";
+
+/**
+ * Picks pages by their Notion ID, their title (a glob like `WIP*`, or a
+ * regular expression like `/^draft/i`), the value of a checkbox, select,
+ * status or multi-select property, or the users who edited them last.
+ */
+export type PageRule =
+	| { pageId: string }
+	| { title: string }
+	| { property: string; equals: boolean | string }
+	| { editedBy: string[] };
+
+/**
+ * What the rules can look at. Only the ID is known before a page is fetched,
+ * and databases have no property values.
+ */
+export interface FilterablePage {
+	id: string;
+	title?: string;
+	properties?: PageObjectResponse["properties"];
+	/** ID of the user who edited the page last */
+	lastEditedBy?: string;
+}
+
+const RULE_KEYS = ["page-id", "title", "property", "edited-by"];
+
+/**
+ * Include and exclude rules of a sync. Exclude rules win over include rules.
+ */
+export class PageFilter {
+	private include: PageRule[];
+	private exclude: PageRule[];
+	private titlePatterns = new Map<PageRule, RegExp>();
+
+	constructor(include: PageRule[] = [], exclude: PageRule[] = []) {
+		this.include = include;
+		this.exclude = exclude;
+		for (const rule of [...include, ...exclude]) {
+			if ("title" in rule) {
+				this.titlePatterns.set(rule, parseTitlePattern(rule.title));
+			}
+		}
+	}
+
+	get hasIncludeRules(): boolean {
+		return this.include.length > 0;
+	}
+
+	/**
+	 * The first exclude rule the page matches.
+	 */
+	excludedBy(page: FilterablePage): PageRule | undefined {
+		return this.exclude.find((rule) => this.matches(rule, page));
+	}
+
+	/**
+	 * Whether the page matches one of the include rules.
+	 */
+	includes(page: FilterablePage): boolean {
+		return this.include.some((rule) => this.matches(rule, page));
+	}
+
+	private matches(rule: PageRule, page: FilterablePage): boolean {
+		if ("pageId" in rule) {
+			return normalizeId(rule.pageId) === normalizeId(page.id);
+		}
+		if ("title" in rule) {
+			const pattern = this.titlePatterns.get(rule);
+			return page.title !== undefined && !!pattern?.test(page.title);
+		}
+		if ("editedBy" in rule) {
+			const editor = page.lastEditedBy;
+			return (
+				!!editor &&
+				rule.editedBy.some((id) => normalizeId(id) === normalizeId(editor))
+			);
+		}
+
+		const value = page.properties?.[rule.property];
+		switch (value?.type) {
+			case "checkbox":
+				return value.checkbox === rule.equals;
+			case "select":
+				return value.select?.name === rule.equals;
+			case "status":
+				return value.status?.name === rule.equals;
+			case "multi_select":
+				return value.multi_select.some((option) => option.name === rule.equals);
+			default:
+				return false;
+		}
+	}
+}
+
+/**
+ * Names the rule in the sync report, e.g. `title WIP*`.
+ */
+export function describePageRule(rule: PageRule): string {
+	if ("pageId" in rule) {
+		return `page ID ${rule.pageId}`;
+	}
+	if ("title" in rule) {
+		return `title ${rule.title}`;
+	}
+	if ("editedBy" in rule) {
+		return `editor ${rule.editedBy.join(", ")}`;
+	}
+	return `${rule.property} = ${rule.equals}`;
+}
+
+/**
+ * Reads a list of rules from the config file or the include and exclude
+ * inputs. Plain strings are page IDs. Returns what is wrong with the first
+ * invalid rule, prefixed by `location`, when the list doesn't parse.
+ */
+export function parsePageRules(
+	value: unknown,
+	location: string,
+): PageRule[] | string {
+	if (!Array.isArray(value)) {
+		return `${location} must be a list of rules`;
+	}
+
+	const rules: PageRule[] = [];
+	for (const [index, item] of value.entries()) {
+		const itemLocation = `${location}[${index}]`;
+		if (typeof item === "string" && item) {
+			rules.push({ pageId: item });
+			continue;
+		}
+
+		const keys =
+			typeof item === "object" && item !== null && !Array.isArray(item)
+				? Object.keys(item).filter((key) => RULE_KEYS.includes(key))
+				: [];
+		if (keys.length !== 1) {
+			return `${itemLocation} must be a page ID or a mapping with one of: ${RULE_KEYS.join(", ")}`;
+		}
+
+		const rule = parsePageRule(
+			item as Record<string, unknown>,
+			keys[0],
+			itemLocation,
+		);
+		if (typeof rule === "string") {
+			return rule;
+		}
+		rules.push(rule);
+	}
+	return rules;
+}
+
+function parsePageRule(
+	item: Record<string, unknown>,
+	key: string,
+	location: string,
+): PageRule | string {
+	const allowedKeys = key === "property" ? [key, "equals"] : [key];
+	const unknownKey = Object.keys(item).find(
+		(itemKey) => !allowedKeys.includes(itemKey),
+	);
+	if (unknownKey) {
+		return `${location}: unknown key "${unknownKey}" in a ${key} rule`;
+	}
+
+	const value = item[key];
+	switch (key) {
+		case "page-id":
+			return typeof value === "string" && value
+				? { pageId: value }
+				: `${location}.page-id must be a Notion page ID`;
+		case "title": {
+			if (typeof value !== "string" || !value) {
+				return `${location}.title must be a glob or a /regular expression/`;
+			}
+			try {
+				parseTitlePattern(value);
+			} catch (error) {
+				return `${location}.title is not a valid regular expression: ${error instanceof Error ? error.message : error}`;
+			}
+			return { title: value };
+		}
+		case "edited-by": {
+			const ids = typeof value === "string" ? [value] : value;
+			return Array.isArray(ids) &&
+				ids.length > 0 &&
+				ids.every((id) => typeof id === "string" && id)
+				? { editedBy: ids }
+				: `${location}.edited-by must be a Notion user ID or a list of them`;
+		}
+		default: {
+			if (typeof value !== "string" || !value) {
+				return `${location}.property must be a property name`;
+			}
+			const equals = item.equals;
+			if (typeof equals !== "boolean" && typeof equals !== "string") {
+				return `${location}.equals must be true or false for a checkbox, or the name of an option`;
+			}
+			return { property: value, equals };
+		}
+	}
+}
+
+/**
+ * `/pattern/flags` is a regular expression. Anything else is a glob matched
+ * against the whole title, ignoring case, where `*` stands for any text and
+ * `?` for one character.
+ */
+function parseTitlePattern(pattern: string): RegExp {
+	const regex = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+	if (regex) {
+		// A global pattern would carry on from its last match
+		return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+	}
+
+	const source = pattern
+		.split("")
+		.map((char) =>
+			char === "*"
+				? ".*"
+				: char === "?"
+					? "."
+					: char.replace(/[.+^${}()|[\]\\]/, "\\$&"),
+		)
+		.join("");
+	return new RegExp(`^${source}$`, "is");
+}
+
+function normalizeId(id: string): string {
+	return id.replace(/-/g, "").toLowerCase();
+}
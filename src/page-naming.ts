@@ -0,0 +1,192 @@
+/**
+ * How wiki page names are made from Notion titles:
+ *
+ * - `slug`: the title in lowercase ASCII, e.g. `user-guide`
+ * - `hierarchical`: the parent page's name as a directory, e.g.
+ *   `handbook/user-guide`
+ * - `slug-id`: the slug with the start of the Notion ID, e.g.
+ *   `user-guide-0123abcd`
+ * - `unicode`: like `slug`, but keeping letters and digits of every
+ *   script, e.g. `日本語ガイド`
+ */
+export type PageNamingStrategy =
+	| "slug"
+	| "hierarchical"
+	| "slug-id"
+	| "unicode";
+
+export const PAGE_NAMING_STRATEGIES: PageNamingStrategy[] = [
+	"slug",
+	"hierarchical",
+	"slug-id",
+	"unicode",
+];
+
+export interface PageNamingOptions {
+	/** Default `slug` */
+	strategy?: PageNamingStrategy;
+	/** Put in front of top-level names, a directory for `hierarchical` */
+	prefix?: string;
+	/** Names of wiki pages that aren't synced, like archived copies */
+	takenNames?: string[];
+}
+
+/**
+ * A page to name. IDs are normalized Notion IDs.
+ */
+export interface NamedPage {
+	pageId: string;
+	title: string;
+	/** The page it sits beneath in the synced tree */
+	parentId?: string;
+}
+
+/** Characters of the Notion ID added to tell pages with the same name apart */
+const SHORT_ID_LENGTH = 8;
+
+/** Names of the wiki's own pages, which synced pages must not take */
+const RESERVED_NAMES = ["home", "_sidebar", "_footer"];
+
+/**
+ * Turns a title into a name for a page URL: lowercase, with spaces as
+ * dashes and without punctuation. Accents are dropped unless
+ * `preserveUnicode` is set, which keeps letters and digits of every script.
+ * Titles with nothing left give an empty string.
+ */
+export function slugify(title: string, preserveUnicode = false): string {
+	const text = preserveUnicode
+		? title.normalize("NFC").replace(/[^\p{L}\p{M}\p{N}\s-]/gu, "")
+		: title
+				.normalize("NFKD")
+				.replace(/[\u0300-\u036f]/g, "")
+				.replace(/[^a-zA-Z0-9\s-]/g, "");
+
+	return text
+		.trim()
+		.replace(/\s+/g, "-")
+		.replace(/-+/g, "-")
+		.replace(/^-|-$/g, "")
+		.toLowerCase();
+}
+
+/**
+ * Names the pages of a sync. `previousNames` holds the name of every page
+ * synced before, by page ID: pages keep their name while it still fits
+ * their title, and the names of pages outside this sync are taken.
+ *
+ * Pages that come out with the same name are told apart by the start of
+ * their Notion ID, then the whole ID. Which page gets the plain name only
+ * depends on the pages and the previous names, never on the order pages
+ * were fetched in.
+ */
+export function assignPageNames(
+	pages: NamedPage[],
+	previousNames: Map<string, string>,
+	options: PageNamingOptions = {},
+): Map<string, string> {
+	const strategy = options.strategy ?? "slug";
+	const pageIds = new Set(pages.map((page) => page.pageId));
+	const names = new Map<string, string>();
+
+	const taken = new Set([
+		...RESERVED_NAMES,
+		...(options.takenNames ?? []).map((name) => name.toLowerCase()),
+	]);
+	for (const [pageId, name] of previousNames) {
+		if (!pageIds.has(pageId)) {
+			taken.add(name.toLowerCase());
+		}
+	}
+
+	const baseName = (page: NamedPage): string => {
+		const shortId = page.pageId.slice(0, SHORT_ID_LENGTH);
+		const slug =
+			slugify(page.title, strategy === "unicode") || `untitled-${shortId}`;
+		const name =
+			strategy === "slug-id" && !slug.endsWith(shortId)
+				? `${slug}-${shortId}`
+				: slug;
+
+		if (strategy === "hierarchical") {
+			const parentName =
+				page.parentId &&
+				(names.get(page.parentId) ?? previousNames.get(page.parentId));
+			if (parentName) {
+				return `${parentName}/${name}`;
+			}
+			return options.prefix ? `${options.prefix}/${name}` : name;
+		}
+		return options.prefix ? `${options.prefix}-${name}` : name;
+	};
+
+	// Hierarchical names build on the parent's, so parents are named first
+	const levels =
+		strategy === "hierarchical" ? groupByDepth(pages) : [pages.slice()];
+
+	for (const level of levels) {
+		level.sort((a, b) => (a.pageId < b.pageId ? -1 : 1));
+		const candidates = new Map(
+			level.map((page) => {
+				const base = baseName(page);
+				return [
+					page.pageId,
+					[
+						base,
+						`${base}-${page.pageId.slice(0, SHORT_ID_LENGTH)}`,
+						`${base}-${page.pageId}`,
+					],
+				];
+			}),
+		);
+
+		// Names from the last sync come first, so adding a page never renames another
+		const unnamed = level.filter((page) => {
+			const previousName = previousNames.get(page.pageId);
+			if (
+				!previousName ||
+				!candidates.get(page.pageId)?.includes(previousName) ||
+				taken.has(previousName.toLowerCase())
+			) {
+				return true;
+			}
+			names.set(page.pageId, previousName);
+			taken.add(previousName.toLowerCase());
+			return false;
+		});
+
+		for (const page of unnamed) {
+			const pageCandidates = candidates.get(page.pageId) ?? [];
+			const name =
+				pageCandidates.find(
+					(candidate) => !taken.has(candidate.toLowerCase()),
+				) ?? pageCandidates[pageCandidates.length - 1];
+			names.set(page.pageId, name);
+			taken.add(name.toLowerCase());
+		}
+	}
+
+	return names;
+}
+
+/**
+ * Splits the pages by how many of their ancestors are among them.
+ */
+function groupByDepth(pages: NamedPage[]): NamedPage[][] {
+	const pagesById = new Map(pages.map((page) => [page.pageId, page]));
+	const levels: NamedPage[][] = [];
+
+	for (const page of pages) {
+		let depth = 0;
+		const seen = new Set([page.pageId]);
+		let parent = page.parentId && pagesById.get(page.parentId);
+		while (parent && !seen.has(parent.pageId)) {
+			seen.add(parent.pageId);
+			depth++;
+			parent = parent.parentId && pagesById.get(parent.parentId);
+		}
+
+		levels[depth] = [...(levels[depth] ?? []), page];
+	}
+
+	return levels.filter(Boolean);
+}
@@ -0,0 +1,169 @@
+import * as core from "@actions/core";
+import type * as github from "@actions/github";
+import { RequestScheduler } from "./request-scheduler";
+
+export type GitHubClient = ReturnType<typeof github.getOctokit>;
+
+export const PULL_REQUEST_TITLE = "Sync documentation from Notion";
+
+export interface PullRequestOptions {
+	/** `owner/repo` of the repository the docs live in */
+	repository: string;
+	/** Branch the synced pages were pushed to */
+	branch: string;
+	/** Branch to merge into, the repository's default branch when unset */
+	base?: string;
+	/** Docs directory the pages were written to */
+	directory: string;
+	/** Extension of the page files (default `.md`) */
+	fileExtension?: string;
+	scheduler?: RequestScheduler;
+}
+
+export interface ChangedFile {
+	filename: string;
+	status: string;
+}
+
+/**
+ * Lists the pages the pull request changes, by title where the page is known
+ * and by file name otherwise.
+ */
+export function buildPullRequestBody(
+	files: ChangedFile[],
+	pageTitles: Map<string, string>,
+	directory: string,
+	runUrl?: string,
+	fileExtension = ".md",
+): string {
+	const prefix = `${directory}/`;
+	const pages = files.filter(
+		({ filename }) =>
+			filename.startsWith(prefix) && filename.endsWith(fileExtension),
+	);
+
+	const lines = [
+		runUrl
+			? `Pages synced from Notion by [this workflow run](${runUrl}).`
+			: "Pages synced from Notion.",
+		"",
+	];
+
+	if (pages.length === 0) {
+		lines.push("No page changes.");
+	} else {
+		for (const { filename, status } of pages) {
+			const title = pageTitles.get(filename.slice(prefix.length));
+			const name = title ? `**${title}** (\`${filename}\`)` : `\`${filename}\``;
+			lines.push(`- ${name}: ${status}`);
+		}
+	}
+
+	lines.push(
+		"",
+		"Every sync updates this pull request until it is merged. Edit the pages in Notion rather than on this branch.",
+	);
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Opens a pull request from the sync branch, or updates the one a previous
+ * run opened, so synced pages go through review like any other change.
+ */
+export class PullRequestPublisher {
+	private octokit: GitHubClient;
+	private options: PullRequestOptions;
+	private owner: string;
+	private repo: string;
+	private scheduler: RequestScheduler;
+
+	constructor(octokit: GitHubClient, options: PullRequestOptions) {
+		this.octokit = octokit;
+		this.options = options;
+		[this.owner, this.repo] = options.repository.split("/");
+		this.scheduler = options.scheduler ?? new RequestScheduler();
+	}
+
+	/**
+	 * Returns the URL of the pull request. `pageTitles` maps the file names
+	 * within the docs directory to the titles of their Notion pages.
+	 */
+	async publish(
+		pageTitles: Map<string, string>,
+		runUrl?: string,
+	): Promise<string> {
+		const { owner, repo } = this;
+		const { branch } = this.options;
+		const base = this.options.base || (await this.getDefaultBranch());
+
+		const { data: comparison } = await this.scheduler.run(
+			() =>
+				this.octokit.rest.repos.compareCommitsWithBasehead({
+					owner,
+					repo,
+					basehead: `${base}...${branch}`,
+				}),
+			"Comparing the sync branch",
+		);
+		const body = buildPullRequestBody(
+			comparison.files ?? [],
+			pageTitles,
+			this.options.directory,
+			runUrl,
+			this.options.fileExtension,
+		);
+
+		const { data: openPullRequests } = await this.scheduler.run(
+			() =>
+				this.octokit.rest.pulls.list({
+					owner,
+					repo,
+					head: `${owner}:${branch}`,
+					base,
+					state: "open",
+				}),
+			"Looking up the sync pull request",
+		);
+
+		const existing = openPullRequests[0];
+		if (existing) {
+			await this.scheduler.run(
+				() =>
+					this.octokit.rest.pulls.update({
+						owner,
+						repo,
+						pull_number: existing.number,
+						body,
+					}),
+				"Updating the sync pull request",
+			);
+			core.info(`Updated pull request #${existing.number}`);
+			return existing.html_url;
+		}
+
+		const { data: created } = await this.scheduler.run(
+			() =>
+				this.octokit.rest.pulls.create({
+					owner,
+					repo,
+					title: PULL_REQUEST_TITLE,
+					head: branch,
+					base,
+					body,
+				}),
+			"Opening the sync pull request",
+		);
+		core.info(`Opened pull request #${created.number}`);
+		return created.html_url;
+	}
+
+	private async getDefaultBranch(): Promise<string> {
+		const { owner, repo } = this;
+		const { data } = await this.scheduler.run(
+			() => this.octokit.rest.repos.get({ owner, repo }),
+			"Looking up the default branch",
+		);
+		return data.default_branch;
+	}
+}
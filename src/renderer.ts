@@ -0,0 +1,661 @@
+import type { RichTextItemResponse } from "@notionhq/client";
+
+/**
+ * Output formats pages can be rendered in: GitHub-flavored Markdown for wikis
+ * and READMEs, MDX for Docusaurus sites, or standalone HTML pages.
+ */
+export type OutputFormat = "gfm" | "mdx" | "html";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["gfm", "mdx", "html"];
+
+export interface PageMetadata {
+	title: string;
+	notionId: string;
+	lastEditedTime: string;
+	/** Position among the page's siblings in Notion, unset for root pages */
+	sidebarPosition?: number;
+}
+
+export interface Heading {
+	level: number;
+	text: string;
+	anchor: string;
+}
+
+export type ListKind = "bulleted" | "numbered" | "to_do";
+
+export type TextAnnotations = Partial<RichTextItemResponse["annotations"]>;
+
+export interface CalloutStyle {
+	/** Emoji icon of the callout */
+	icon?: string;
+	/** Notion color, e.g. `red_background` */
+	color?: string;
+}
+
+/**
+ * Writes the syntax of one output format. NotionSync walks the blocks,
+ * resolves links and stores assets, and hands the renderer text that is
+ * already rendered: `text` arguments of block methods are rendered inline
+ * content, `children` and `body` are rendered blocks.
+ */
+export interface Renderer {
+	/** Extension of the page files, including the dot */
+	readonly fileExtension: string;
+
+	page(metadata: PageMetadata, body: string): string;
+	/** Adds a notice, like the banner of an archived page, to a rendered page */
+	notice(page: string, label: string, text: string): string;
+	blocks(parts: string[]): string;
+
+	paragraph(text: string, children: string): string;
+	heading(
+		level: number,
+		text: string,
+		anchor: string,
+		children: string,
+	): string;
+	list(kind: ListKind, items: string[]): string;
+	listItem(
+		kind: ListKind,
+		text: string,
+		children: string,
+		checked?: boolean,
+	): string;
+	toggle(summary: string, body: string): string;
+	/** `code` is the raw source, escaped by the renderer */
+	code(code: string, language: string): string;
+	quote(text: string, body: string): string;
+	callout(text: string, body: string, style: CalloutStyle): string;
+	/** Cells are rendered inline content, the first row is the header when `hasHeader` */
+	table(rows: string[][], hasHeader: boolean): string;
+	image(url: string, alt: string, caption: string): string;
+	file(url: string, name: string, caption: string): string;
+	equation(expression: string): string;
+	tableOfContents(headings: Heading[]): string;
+	divider(): string;
+
+	/** Escapes plain text for the format */
+	text(text: string): string;
+	/** Renders a run of plain text with the formatting Notion applied to it */
+	annotatedText(text: string, annotations: TextAnnotations): string;
+	/** An equation within a line of text */
+	inlineEquation(expression: string): string;
+	link(text: string, url: string): string;
+}
+
+function indent(markdown: string, prefix: string): string {
+	return markdown
+		.split("\n")
+		.map((line) => (line ? `${prefix}${line}` : line))
+		.join("\n");
+}
+
+function quote(markdown: string): string {
+	return markdown
+		.split("\n")
+		.map((line) => (line ? `> ${line}` : ">"))
+		.join("\n");
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Notion's text colors, and the highlights of its `_background` colors.
+ */
+const NOTION_COLORS: Record<string, string> = {
+	gray: "#787774",
+	brown: "#9f6b53",
+	orange: "#d9730d",
+	yellow: "#cb912f",
+	green: "#448361",
+	blue: "#337ea9",
+	purple: "#9065b0",
+	pink: "#c14c8a",
+	red: "#d44c47",
+	gray_background: "#f1f1ef",
+	brown_background: "#f4eeee",
+	orange_background: "#fbecdd",
+	yellow_background: "#fbf3db",
+	green_background: "#edf3ec",
+	blue_background: "#e7f3f8",
+	purple_background: "#f6f3f9",
+	pink_background: "#faf1f5",
+	red_background: "#fdebec",
+};
+
+/**
+ * The CSS property and value for a Notion color, undefined for `default`.
+ */
+function colorStyle(
+	color: string | undefined,
+): { property: "color" | "background-color"; value: string } | undefined {
+	const value = color ? NOTION_COLORS[color] : undefined;
+	if (!color || !value) {
+		return undefined;
+	}
+	return {
+		property: color.endsWith("_background") ? "background-color" : "color",
+		value,
+	};
+}
+
+/**
+ * Splits the whitespace around a run of text from its content, since
+ * emphasis markers only work when they hug the text.
+ */
+function splitWhitespace(text: string): [string, string, string] {
+	const [, leading, content, trailing] = text.match(
+		/^(\s*)([\s\S]*?)(\s*)$/,
+	) as RegExpMatchArray;
+	return [leading, content, trailing];
+}
+
+/**
+ * A code span fenced by more backticks than the code contains in a row.
+ */
+function codeSpan(code: string): string {
+	const longest = Math.max(
+		0,
+		...(code.match(/`+/g) ?? []).map((ticks) => ticks.length),
+	);
+	const fence = "`".repeat(longest + 1);
+	// A space on each side lets code start or end with a backtick
+	const padding = /^`|`$/.test(code) ? " " : "";
+	return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+/**
+ * Escapes the pipes of a table cell that text escaping left alone, like
+ * those in code spans.
+ */
+function escapePipes(cell: string): string {
+	return cell.replace(/\\?\|/g, (pipe) => (pipe === "|" ? "\\|" : pipe));
+}
+
+/**
+ * Escapes the characters GitHub-flavored Markdown would read as formatting,
+ * so text shows up as written.
+ */
+export function escapeMarkdown(text: string): string {
+	return (
+		text
+			.replace(/[\\`*_[\]<|~$]/g, "\\$&")
+			.replace(/&(?=#?\w+;)/g, "\\&")
+			// Text at the start of a line would otherwise make a heading, list,
+			// quote or rule
+			.replace(/^(\s*)(#{1,6}(?=\s|$)|>|[+-](?=\s|$)|[-=]+\s*$)/gm, "$1\\$2")
+			.replace(/^(\s*\d{1,9})([.)])(?=\s|$)/gm, "$1\\$2")
+	);
+}
+
+const LIST_MARKERS: Record<ListKind, string> = {
+	bulleted: "- ",
+	numbered: "1. ",
+	to_do: "- ",
+};
+
+/**
+ * GitHub-flavored Markdown, as GitHub renders it in wikis and repositories.
+ */
+export class GfmRenderer implements Renderer {
+	readonly fileExtension: string = ".md";
+
+	page(metadata: PageMetadata, body: string): string {
+		return `# ${this.text(metadata.title)}\n\n${body}`.trim();
+	}
+
+	notice(page: string, label: string, text: string): string {
+		return `> **${label}:** ${text}\n\n${page}`;
+	}
+
+	blocks(parts: string[]): string {
+		return parts.filter(Boolean).join("\n\n");
+	}
+
+	paragraph(text: string, children: string): string {
+		// Without the blank line a nested paragraph continues its parent
+		return children ? `${text}\n\n${indent(children, "  ")}` : text;
+	}
+
+	heading(
+		level: number,
+		text: string,
+		_anchor: string,
+		children: string,
+	): string {
+		return `${"#".repeat(level)} ${text}${children ? `\n\n${children}` : ""}`;
+	}
+
+	list(_kind: ListKind, items: string[]): string {
+		return items.join("\n");
+	}
+
+	listItem(
+		kind: ListKind,
+		text: string,
+		children: string,
+		checked?: boolean,
+	): string {
+		const marker = LIST_MARKERS[kind];
+		const checkbox = kind === "to_do" ? (checked ? "[x] " : "[ ] ") : "";
+		// Children line up with the text of the item
+		const nested = children
+			? `\n${indent(children, " ".repeat(marker.length))}`
+			: "";
+		return `${marker}${checkbox}${text}${nested}`;
+	}
+
+	toggle(summary: string, body: string): string {
+		return `<details>\n<summary>${summary}</summary>${body ? `\n\n${body}` : ""}\n\n</details>`;
+	}
+
+	code(code: string, language: string): string {
+		return `\`\`\`${language}\n${code}\n\`\`\``;
+	}
+
+	quote(text: string, body: string): string {
+		return quote(`${text}${body ? `\n\n${body}` : ""}`);
+	}
+
+	callout(text: string, body: string, style: CalloutStyle): string {
+		const icon = style.icon ? `${style.icon} ` : "";
+		return quote(`${icon}${text}${body ? `\n\n${body}` : ""}`);
+	}
+
+	table(rows: string[][], hasHeader: boolean): string {
+		const width = Math.max(0, ...rows.map((row) => row.length));
+		if (width === 0) {
+			return "";
+		}
+
+		const formatRow = (cells: string[]) => {
+			const padded = Array.from({ length: width }, (_, i) =>
+				this.escapeTableCell(cells[i] || ""),
+			);
+			return `| ${padded.join(" | ")} |`;
+		};
+
+		// GFM tables always need a header row, so use a blank one when there is none
+		const [header, ...body] = hasHeader ? rows : [[], ...rows];
+		const separator = `| ${Array.from({ length: width }, () => "---").join(" | ")} |`;
+
+		return [formatRow(header), separator, ...body.map(formatRow)].join("\n");
+	}
+
+	protected escapeTableCell(value: string): string {
+		return escapePipes(value).replace(/\n/g, "<br>");
+	}
+
+	image(url: string, alt: string, caption: string): string {
+		const image = `![${this.text(alt)}](${url})`;
+		return caption ? `${image}\n*${caption}*` : image;
+	}
+
+	file(url: string, name: string, caption: string): string {
+		const link = `[${this.text(name)}](${url})`;
+		return caption ? `${link}\n*${caption}*` : link;
+	}
+
+	equation(expression: string): string {
+		return `$$\n${expression}\n$$`;
+	}
+
+	tableOfContents(headings: Heading[]): string {
+		return headings
+			.map(
+				(heading) =>
+					`${"  ".repeat(heading.level - 1)}- [${this.text(heading.text)}](#${heading.anchor})`,
+			)
+			.join("\n");
+	}
+
+	divider(): string {
+		return "---";
+	}
+
+	text(text: string): string {
+		return escapeMarkdown(text);
+	}
+
+	annotatedText(text: string, annotations: TextAnnotations): string {
+		const [leading, content, trailing] = splitWhitespace(text);
+		if (!content) {
+			return text;
+		}
+
+		let markdown = annotations.code ? codeSpan(content) : this.text(content);
+		if (annotations.bold) {
+			markdown = `**${markdown}**`;
+		}
+		if (annotations.italic) {
+			markdown = `*${markdown}*`;
+		}
+		if (annotations.strikethrough) {
+			markdown = `~~${markdown}~~`;
+		}
+		// GFM has no underline or colors, GitHub keeps these tags
+		if (annotations.underline) {
+			markdown = `<ins>${markdown}</ins>`;
+		}
+		markdown = this.colored(markdown, annotations.color);
+		return `${leading}${markdown}${trailing}`;
+	}
+
+	protected colored(markdown: string, color?: string): string {
+		const style = colorStyle(color);
+		if (!style) {
+			return markdown;
+		}
+		const tag = style.property === "color" ? "span" : "mark";
+		return `<${tag} style="${style.property}: ${style.value}">${markdown}</${tag}>`;
+	}
+
+	inlineEquation(expression: string): string {
+		// GitHub's inline math syntax that Markdown inside can't break
+		return `$\`${expression}\`$`;
+	}
+
+	link(text: string, url: string): string {
+		return `[${text}](${url})`;
+	}
+}
+
+/**
+ * Docusaurus flavored MDX: front matter instead of a title heading, and
+ * admonitions for callouts.
+ */
+export class MdxRenderer extends GfmRenderer {
+	readonly fileExtension = ".mdx";
+
+	page(metadata: PageMetadata, body: string): string {
+		const frontMatter = [
+			"---",
+			`title: ${JSON.stringify(metadata.title)}`,
+			`notion_id: ${JSON.stringify(metadata.notionId)}`,
+			`last_edited: ${JSON.stringify(metadata.lastEditedTime)}`,
+			...(metadata.sidebarPosition === undefined
+				? []
+				: [`sidebar_position: ${metadata.sidebarPosition}`]),
+			"---",
+		].join("\n");
+
+		// Docusaurus shows the front matter title as the page heading
+		return body.trim() ? `${frontMatter}\n\n${body.trim()}` : frontMatter;
+	}
+
+	notice(page: string, label: string, text: string): string {
+		const admonition = `:::caution[${label}]\n\n${text}\n\n:::`;
+		const frontMatter = page.match(/^---\n[\s\S]*?\n---(\n|$)/);
+		if (!frontMatter) {
+			return `${admonition}\n\n${page}`;
+		}
+
+		const rest = page.slice(frontMatter[0].length).trim();
+		return `${frontMatter[0].trimEnd()}\n\n${admonition}${rest ? `\n\n${rest}` : ""}`;
+	}
+
+	callout(text: string, body: string, style: CalloutStyle): string {
+		const content = `${text}${body ? `\n\n${body}` : ""}`;
+		return `:::${getAdmonitionType(style)}\n\n${content}\n\n:::`;
+	}
+
+	protected escapeTableCell(value: string): string {
+		// MDX is JSX, where void elements have to be closed
+		return escapePipes(value).replace(/\n/g, "<br />");
+	}
+
+	text(text: string): string {
+		// Braces and angle brackets would start JSX expressions and elements
+		return super.text(text).replace(/[{}]/g, "\\$&").replace(/\\</g, "&lt;");
+	}
+
+	protected colored(markdown: string, color?: string): string {
+		const style = colorStyle(color);
+		if (!style) {
+			return markdown;
+		}
+		// JSX takes styles as objects
+		return style.property === "color"
+			? `<span style={{ color: "${style.value}" }}>${markdown}</span>`
+			: `<mark style={{ backgroundColor: "${style.value}" }}>${markdown}</mark>`;
+	}
+
+	inlineEquation(expression: string): string {
+		// Read by remark-math, which Docusaurus sets up for KaTeX
+		return `$${expression}$`;
+	}
+}
+
+/**
+ * Picks the Docusaurus admonition closest to the callout's color, falling
+ * back to its icon.
+ */
+function getAdmonitionType(style: CalloutStyle): string {
+	const color = style.color?.replace(/_background$/, "");
+	switch (color) {
+		case "red":
+			return "danger";
+		case "orange":
+		case "yellow":
+			return "warning";
+		case "green":
+			return "tip";
+		case "blue":
+			return "info";
+	}
+
+	switch (style.icon) {
+		case "🚨":
+		case "❗":
+		case "⛔":
+			return "danger";
+		case "⚠️":
+			return "warning";
+		case "💡":
+			return "tip";
+		case "ℹ️":
+			return "info";
+		default:
+			return "note";
+	}
+}
+
+/**
+ * Standalone HTML pages.
+ */
+export class HtmlRenderer implements Renderer {
+	readonly fileExtension = ".html";
+
+	page(metadata: PageMetadata, body: string): string {
+		const title = escapeHtml(metadata.title);
+		return [
+			"<!DOCTYPE html>",
+			"<html>",
+			"<head>",
+			'<meta charset="utf-8">',
+			`<title>${title}</title>`,
+			`<meta name="notion-id" content="${escapeHtml(metadata.notionId)}">`,
+			`<meta name="last-edited" content="${escapeHtml(metadata.lastEditedTime)}">`,
+			"</head>",
+			"<body>",
+			`<h1>${title}</h1>`,
+			...(body ? [body] : []),
+			"</body>",
+			"</html>",
+		].join("\n");
+	}
+
+	notice(page: string, label: string, text: string): string {
+		const notice = `<p class="notice"><strong>${escapeHtml(label)}:</strong> ${text}</p>`;
+		return page.includes("<body>\n")
+			? page.replace("<body>\n", `<body>\n${notice}\n`)
+			: `${notice}\n${page}`;
+	}
+
+	blocks(parts: string[]): string {
+		return parts.filter(Boolean).join("\n");
+	}
+
+	paragraph(text: string, children: string): string {
+		return `<p>${text}</p>${children ? `\n${children}` : ""}`;
+	}
+
+	heading(
+		level: number,
+		text: string,
+		anchor: string,
+		children: string,
+	): string {
+		const tag = `h${level}`;
+		return `<${tag} id="${escapeHtml(anchor)}">${text}</${tag}>${children ? `\n${children}` : ""}`;
+	}
+
+	list(kind: ListKind, items: string[]): string {
+		const tag = kind === "numbered" ? "ol" : "ul";
+		const className = kind === "to_do" ? ' class="task-list"' : "";
+		return `<${tag}${className}>\n${items.join("\n")}\n</${tag}>`;
+	}
+
+	listItem(
+		kind: ListKind,
+		text: string,
+		children: string,
+		checked?: boolean,
+	): string {
+		const checkbox =
+			kind === "to_do"
+				? `<input type="checkbox" disabled${checked ? " checked" : ""}> `
+				: "";
+		return `<li>${checkbox}${text}${children ? `\n${children}\n` : ""}</li>`;
+	}
+
+	toggle(summary: string, body: string): string {
+		return `<details>\n<summary>${summary}</summary>${body ? `\n${body}` : ""}\n</details>`;
+	}
+
+	code(code: string, language: string): string {
+		const className = language
+			? ` class="language-${escapeHtml(language)}"`
+			: "";
+		return `<pre><code${className}>${escapeHtml(code)}</code></pre>`;
+	}
+
+	quote(text: string, body: string): string {
+		return `<blockquote>\n<p>${text}</p>${body ? `\n${body}` : ""}\n</blockquote>`;
+	}
+
+	callout(text: string, body: string, style: CalloutStyle): string {
+		const icon = style.icon ? `${style.icon} ` : "";
+		const color = style.color ? ` callout-${escapeHtml(style.color)}` : "";
+		return `<aside class="callout${color}">\n<p>${icon}${text}</p>${body ? `\n${body}` : ""}\n</aside>`;
+	}
+
+	table(rows: string[][], hasHeader: boolean): string {
+		if (rows.length === 0) {
+			return "";
+		}
+
+		const formatRow = (cells: string[], tag: "th" | "td") =>
+			`<tr>${cells.map((cell) => `<${tag}>${cell.replace(/\n/g, "<br>")}</${tag}>`).join("")}</tr>`;
+		const [header, ...body] = hasHeader ? rows : [undefined, ...rows];
+
+		return [
+			"<table>",
+			...(header ? [`<thead>${formatRow(header, "th")}</thead>`] : []),
+			"<tbody>",
+			...body.map((row) => formatRow(row ?? [], "td")),
+			"</tbody>",
+			"</table>",
+		].join("\n");
+	}
+
+	image(url: string, alt: string, caption: string): string {
+		const image = `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">`;
+		return caption
+			? `<figure>\n${image}\n<figcaption>${caption}</figcaption>\n</figure>`
+			: `<p>${image}</p>`;
+	}
+
+	file(url: string, name: string, caption: string): string {
+		const link = `<a href="${escapeHtml(url)}">${escapeHtml(name)}</a>`;
+		return caption
+			? `<p>${link}<br>\n<em>${caption}</em></p>`
+			: `<p>${link}</p>`;
+	}
+
+	equation(expression: string): string {
+		// Left for KaTeX or MathJax to typeset in the browser
+		return `<div class="math">\\[${escapeHtml(expression)}\\]</div>`;
+	}
+
+	tableOfContents(headings: Heading[]): string {
+		if (headings.length === 0) {
+			return "";
+		}
+
+		const items = headings.map(
+			(heading) =>
+				`<li class="toc-level-${heading.level}"><a href="#${escapeHtml(heading.anchor)}">${escapeHtml(heading.text)}</a></li>`,
+		);
+		return `<nav class="table-of-contents">\n<ul>\n${items.join("\n")}\n</ul>\n</nav>`;
+	}
+
+	divider(): string {
+		return "<hr>";
+	}
+
+	text(text: string): string {
+		return escapeHtml(text).replace(/\n/g, "<br>");
+	}
+
+	annotatedText(text: string, annotations: TextAnnotations): string {
+		let html = annotations.code
+			? `<code>${escapeHtml(text)}</code>`
+			: this.text(text);
+		if (annotations.bold) {
+			html = `<strong>${html}</strong>`;
+		}
+		if (annotations.italic) {
+			html = `<em>${html}</em>`;
+		}
+		if (annotations.strikethrough) {
+			html = `<del>${html}</del>`;
+		}
+		if (annotations.underline) {
+			html = `<u>${html}</u>`;
+		}
+
+		const style = colorStyle(annotations.color);
+		if (style) {
+			const tag = style.property === "color" ? "span" : "mark";
+			html = `<${tag} style="${style.property}: ${style.value}">${html}</${tag}>`;
+		}
+		return html;
+	}
+
+	inlineEquation(expression: string): string {
+		return `<span class="math">\\(${escapeHtml(expression)}\\)</span>`;
+	}
+
+	link(text: string, url: string): string {
+		return `<a href="${escapeHtml(url)}">${text}</a>`;
+	}
+}
+
+export function createRenderer(format: OutputFormat = "gfm"): Renderer {
+	switch (format) {
+		case "mdx":
+			return new MdxRenderer();
+		case "html":
+			return new HtmlRenderer();
+		default:
+			return new GfmRenderer();
+	}
+}
@@ -0,0 +1,210 @@
+import * as core from "@actions/core";
+import { ClientErrorCode, isNotionClientError } from "@notionhq/client";
+
+export interface RequestSchedulerOptions {
+	/** Sustained request rate, Notion allows an average of three per second */
+	requestsPerSecond?: number;
+	/** Requests that may go out back to back before the rate applies */
+	burst?: number;
+	maxRetries?: number;
+	/** First backoff delay, doubled on every further retry */
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	sleep?: (ms: number) => Promise<void>;
+}
+
+const TRANSIENT_NETWORK_ERROR =
+	/ECONNRESET|ETIMEDOUT|EAI_AGAIN|ECONNREFUSED|socket hang up|Could not resolve host|returned error: (429|5\d\d)|RPC failed|early EOF/i;
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getStatus(error: unknown): number | undefined {
+	if (error && typeof error === "object" && "status" in error) {
+		return typeof error.status === "number" ? error.status : undefined;
+	}
+	return undefined;
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+	if (!headers || typeof headers !== "object") {
+		return undefined;
+	}
+
+	if ("get" in headers && typeof headers.get === "function") {
+		return headers.get(name) ?? undefined;
+	}
+
+	const value = (headers as Record<string, unknown>)[name];
+	return value === undefined ? undefined : String(value);
+}
+
+/**
+ * The delay a rate limited response asked for, from its `Retry-After` header.
+ * Notion errors carry the headers directly, Octokit errors on the response.
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+	if (!error || typeof error !== "object") {
+		return null;
+	}
+
+	const headers =
+		"headers" in error
+			? error.headers
+			: "response" in error &&
+					error.response &&
+					typeof error.response === "object" &&
+					"headers" in error.response
+				? error.response.headers
+				: undefined;
+	const retryAfter = getHeader(headers, "retry-after");
+	if (!retryAfter) {
+		return null;
+	}
+
+	const seconds = Number(retryAfter);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	// Retry-After may also be an HTTP date
+	const date = Date.parse(retryAfter);
+	return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate limits, server errors, timeouts and dropped connections are worth
+ * retrying. Anything else, like a missing page, fails straight away.
+ */
+export function isRetryableError(error: unknown): boolean {
+	const status = getStatus(error);
+	if (status !== undefined) {
+		return status === 429 || status >= 500;
+	}
+
+	if (isNotionClientError(error)) {
+		return error.code === ClientErrorCode.RequestTimeout;
+	}
+
+	return error instanceof Error && TRANSIENT_NETWORK_ERROR.test(error.message);
+}
+
+/**
+ * Spaces out API requests to stay under a rate limit and retries transient
+ * failures. A `Retry-After` from one request holds back all the others, since
+ * they count against the same limit.
+ */
+export class RequestScheduler {
+	private requestsPerSecond: number;
+	private burst: number;
+	private maxRetries: number;
+	private baseDelayMs: number;
+	private maxDelayMs: number;
+	private sleep: (ms: number) => Promise<void>;
+	private tokens: number;
+	private lastRefill = Date.now();
+	private pausedUntil = 0;
+	private requests = 0;
+
+	constructor(options: RequestSchedulerOptions = {}) {
+		this.requestsPerSecond = options.requestsPerSecond ?? 3;
+		this.burst = options.burst ?? 3;
+		this.maxRetries = options.maxRetries ?? 5;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+		this.maxDelayMs = options.maxDelayMs ?? 30000;
+		this.sleep = options.sleep ?? sleep;
+		this.tokens = this.burst;
+	}
+
+	async run<T>(request: () => Promise<T>, description = "Request"): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			await this.acquire();
+			this.requests++;
+
+			try {
+				return await request();
+			} catch (error) {
+				if (attempt >= this.maxRetries || !isRetryableError(error)) {
+					throw error;
+				}
+
+				const retryAfter = getRetryAfterMs(error);
+				const delay =
+					retryAfter ??
+					Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+				if (retryAfter !== null) {
+					this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+				}
+
+				core.warning(
+					`${description} failed (${error}), retrying in ${Math.ceil(delay / 1000)}s (retry ${attempt + 1} of ${this.maxRetries})`,
+				);
+				await this.sleep(delay);
+			}
+		}
+	}
+
+	/** Requests sent so far, retries included */
+	get requestCount(): number {
+		return this.requests;
+	}
+
+	private async acquire(): Promise<void> {
+		for (;;) {
+			const pause = this.pausedUntil - Date.now();
+			if (pause > 0) {
+				await this.sleep(pause);
+				continue;
+			}
+
+			const now = Date.now();
+			this.tokens = Math.min(
+				this.burst,
+				this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond,
+			);
+			this.lastRefill = now;
+
+			if (this.tokens >= 1) {
+				this.tokens -= 1;
+				return;
+			}
+
+			await this.sleep(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+		}
+	}
+}
+
+/**
+ * Runs tasks with at most `limit` running at once. Tasks that start more tasks
+ * through the same limiter must not wait for them while holding their slot.
+ */
+export class ConcurrencyLimiter {
+	private readonly limit: number;
+	private running = 0;
+	private readonly waiting: (() => void)[] = [];
+
+	constructor(limit: number) {
+		this.limit = Math.max(1, limit);
+	}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		if (this.running < this.limit) {
+			this.running++;
+		} else {
+			// The finishing task hands its slot straight over
+			await new Promise<void>((resolve) => this.waiting.push(resolve));
+		}
+
+		try {
+			return await task();
+		} finally {
+			const next = this.waiting.shift();
+			if (next) {
+				next();
+			} else {
+				this.running--;
+			}
+		}
+	}
+}
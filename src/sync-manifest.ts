@@ -0,0 +1,172 @@
+import { createHash } from "node:crypto";
+
+export const MANIFEST_PATH = ".notion-sync/manifest.json";
+
+export interface ManifestEntry {
+	pageId: string;
+	title: string;
+	wikiPageName: string;
+	lastEditedTime: string;
+	contentHash: string;
+	childPageIds: string[];
+	/** Pages @mentioned on the page, followed with `follow-mentions` */
+	mentionedPageIds?: string[];
+	/** Wiki pages the page links to, so it's rendered again when they're renamed */
+	linkedPageNames?: string[];
+}
+
+/**
+ * A stub left at a page's old wiki name after it was renamed in Notion.
+ */
+export interface ManifestRedirect {
+	from: string;
+	to: string;
+	createdAt: string;
+}
+
+/**
+ * A copy of a pruned page kept by `prune: archive`.
+ */
+export interface ManifestArchivedPage {
+	wikiPageName: string;
+	title: string;
+	archivedAt: string;
+}
+
+interface ManifestFile {
+	version: 1;
+	pages: ManifestEntry[];
+	redirects?: ManifestRedirect[];
+	archived?: ManifestArchivedPage[];
+}
+
+export function hashContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Record of what the previous runs wrote to the wiki, stored alongside the
+ * pages so unchanged Notion pages can be skipped.
+ */
+export class SyncManifest {
+	private entries = new Map<string, ManifestEntry>();
+	private redirects = new Map<string, ManifestRedirect>();
+	private archived = new Map<string, ManifestArchivedPage>();
+
+	static parse(content: string | null): SyncManifest {
+		const manifest = new SyncManifest();
+		if (!content) {
+			return manifest;
+		}
+
+		const parsed: ManifestFile = JSON.parse(content);
+		if (parsed.version !== 1 || !Array.isArray(parsed.pages)) {
+			throw new Error(
+				`Unsupported sync manifest format in ${MANIFEST_PATH}, delete it to run a full sync`,
+			);
+		}
+
+		for (const entry of parsed.pages) {
+			manifest.set(entry);
+		}
+
+		for (const redirect of parsed.redirects ?? []) {
+			manifest.setRedirect(redirect);
+		}
+
+		for (const archivedPage of parsed.archived ?? []) {
+			manifest.setArchivedPage(archivedPage);
+		}
+
+		return manifest;
+	}
+
+	get(pageId: string): ManifestEntry | undefined {
+		return this.entries.get(pageId);
+	}
+
+	set(entry: ManifestEntry): void {
+		this.entries.set(entry.pageId, entry);
+	}
+
+	delete(pageId: string): void {
+		this.entries.delete(pageId);
+	}
+
+	/**
+	 * IDs of the page and every page recorded beneath it, following the child
+	 * page IDs stored for each entry.
+	 */
+	getSubtreeIds(pageId: string): Set<string> {
+		const subtree = new Set<string>();
+		const pending = [pageId];
+
+		while (pending.length > 0) {
+			const currentId = pending.pop() as string;
+			if (subtree.has(currentId)) {
+				continue;
+			}
+
+			subtree.add(currentId);
+			pending.push(...(this.entries.get(currentId)?.childPageIds ?? []));
+		}
+
+		return subtree;
+	}
+
+	/**
+	 * Detaches the page from every parent it was recorded under and, when the
+	 * new parent is known, appends it to that parent's children.
+	 */
+	moveChild(pageId: string, newParentId?: string): void {
+		for (const entry of this.entries.values()) {
+			if (entry.childPageIds.includes(pageId)) {
+				entry.childPageIds = entry.childPageIds.filter((id) => id !== pageId);
+			}
+		}
+
+		const newParent = newParentId && this.entries.get(newParentId);
+		if (newParent) {
+			newParent.childPageIds.push(pageId);
+		}
+	}
+
+	getRedirects(): ManifestRedirect[] {
+		return [...this.redirects.values()];
+	}
+
+	setRedirect(redirect: ManifestRedirect): void {
+		this.redirects.set(redirect.from, redirect);
+	}
+
+	deleteRedirect(from: string): void {
+		this.redirects.delete(from);
+	}
+
+	getArchivedPages(): ManifestArchivedPage[] {
+		return [...this.archived.values()];
+	}
+
+	setArchivedPage(archivedPage: ManifestArchivedPage): void {
+		this.archived.set(archivedPage.wikiPageName, archivedPage);
+	}
+
+	all(): ManifestEntry[] {
+		return [...this.entries.values()];
+	}
+
+	serialize(): string {
+		const file: ManifestFile = {
+			version: 1,
+			// Sorted so unrelated changes don't reorder the whole file
+			pages: this.all().sort((a, b) => a.pageId.localeCompare(b.pageId)),
+			redirects: this.getRedirects().sort((a, b) =>
+				a.from.localeCompare(b.from),
+			),
+			archived: this.getArchivedPages().sort((a, b) =>
+				a.wikiPageName.localeCompare(b.wikiPageName),
+			),
+		};
+		return `${JSON.stringify(file, null, 2)}\n`;
+	}
+}
@@ -1,15 +1,118 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
 import * as fs from "node:fs";
 import * as core from "@actions/core";
 
+/**
+ * The payload shape of the original Notion automations, which only carried
+ * the ID of the changed object.
+ */
 export interface NotionWebhookPayload {
 	object: string;
 	event_ts: string;
+	timestamp?: string;
 	data?: {
 		object: string;
 		id?: string;
 	};
 }
 
+export interface NotionEntity {
+	id: string;
+	type: "page" | "database" | "block" | "comment";
+}
+
+interface NotionWebhookEventBase {
+	id?: string;
+	timestamp: string;
+	workspace_id?: string;
+	entity: NotionEntity;
+	/** Set when Notion delivers several changes of the same kind as one event */
+	entities?: NotionEntity[];
+}
+
+export interface PageContentUpdatedEvent extends NotionWebhookEventBase {
+	type: "page.content_updated" | "page.created" | "page.undeleted";
+	data?: {
+		parent?: { id: string; type: string };
+		updated_blocks?: NotionEntity[];
+	};
+}
+
+export interface PagePropertiesUpdatedEvent extends NotionWebhookEventBase {
+	type: "page.properties_updated";
+	data?: {
+		parent?: { id: string; type: string };
+		updated_properties?: string[];
+	};
+}
+
+export interface PageMovedEvent extends NotionWebhookEventBase {
+	type: "page.moved";
+	data?: {
+		parent?: { id: string; type: string };
+	};
+}
+
+export interface PageDeletedEvent extends NotionWebhookEventBase {
+	type: "page.deleted";
+}
+
+export interface DatabaseEvent extends NotionWebhookEventBase {
+	type:
+		| "database.created"
+		| "database.content_updated"
+		| "database.schema_updated"
+		| "database.moved"
+		| "database.undeleted";
+}
+
+export interface DatabaseDeletedEvent extends NotionWebhookEventBase {
+	type: "database.deleted";
+}
+
+/**
+ * Sent once when a webhook subscription is created. The token has to be
+ * entered in Notion to activate the subscription.
+ */
+export interface VerificationChallenge {
+	type: "verification";
+	verification_token: string;
+}
+
+export type NotionWebhookEvent =
+	| PageContentUpdatedEvent
+	| PagePropertiesUpdatedEvent
+	| PageMovedEvent
+	| PageDeletedEvent
+	| DatabaseEvent
+	| DatabaseDeletedEvent
+	| VerificationChallenge;
+
+/**
+ * What a webhook event asks the sync to do.
+ */
+export type WebhookAction =
+	| { type: "sync-page"; pageId: string }
+	| { type: "move-page"; pageId: string; parentId?: string }
+	| { type: "delete-page"; pageId: string }
+	| { type: "sync-database"; databaseId: string }
+	| { type: "verify"; verificationToken: string };
+
+const EVENT_TYPES: NotionWebhookEvent["type"][] = [
+	"page.content_updated",
+	"page.created",
+	"page.undeleted",
+	"page.properties_updated",
+	"page.moved",
+	"page.deleted",
+	"database.created",
+	"database.content_updated",
+	"database.schema_updated",
+	"database.moved",
+	"database.undeleted",
+	"database.deleted",
+];
+
 type WebhookPayload = NotionWebhookPayload | null | undefined;
 
 export function extractPageId(payload: WebhookPayload) {
@@ -18,6 +121,18 @@ export function extractPageId(payload: WebhookPayload) {
 		return null;
 	}
 
+	// Handle typed webhook events
+	if (
+		"entity" in payload &&
+		payload.entity &&
+		typeof payload.entity === "object" &&
+		"id" in payload.entity &&
+		typeof payload.entity.id === "string"
+	) {
+		core.info(`Extracted page ID from webhook event: ${payload.entity.id}`);
+		return payload.entity.id;
+	}
+
 	// Handle different webhook payload structures
 	if (
 		"data" in payload &&
@@ -77,13 +192,314 @@ export function validateWebhookPayload(payload: NotionWebhookPayload) {
 	return true; // Still valid, might be other types of updates
 }
 
+/**
+ * Loads the event that triggered the workflow. It may carry one Notion event
+ * or a batch of them, see `parseWebhookEvents`.
+ */
 export function getWebhookPayloadFromEnvironment() {
 	// GitHub Actions provides webhook payload in GITHUB_EVENT_PATH
 	const eventPath = process.env.GITHUB_EVENT_PATH;
 
-	const eventPayload: NotionWebhookPayload | null = JSON.parse(
-		fs.readFileSync(eventPath, "utf8"),
-	);
+	const eventPayload: unknown = JSON.parse(fs.readFileSync(eventPath, "utf8"));
 	core.info("Loaded webhook payload from GitHub event");
 	return eventPayload;
 }
+
+/**
+ * Unwraps a `repository_dispatch` event: the relay forwards Notion's request
+ * either as the raw body string in `client_payload.body` or as parsed JSON in
+ * `client_payload` itself. Anything else is treated as the Notion payload.
+ */
+export function unwrapDispatchPayload(eventPayload: unknown): unknown {
+	if (
+		!eventPayload ||
+		typeof eventPayload !== "object" ||
+		!("client_payload" in eventPayload) ||
+		!eventPayload.client_payload ||
+		typeof eventPayload.client_payload !== "object"
+	) {
+		return eventPayload;
+	}
+
+	const clientPayload = eventPayload.client_payload;
+	if ("body" in clientPayload && typeof clientPayload.body === "string") {
+		return JSON.parse(clientPayload.body);
+	}
+
+	return clientPayload;
+}
+
+/**
+ * Classifies a Notion payload. Payloads in the original automation shape are
+ * read as a content update of the page they name.
+ */
+export function parseWebhookEvent(payload: unknown): NotionWebhookEvent | null {
+	if (!payload || typeof payload !== "object") {
+		core.error("Invalid webhook payload: not an object");
+		return null;
+	}
+
+	if (
+		"verification_token" in payload &&
+		typeof payload.verification_token === "string"
+	) {
+		return {
+			type: "verification",
+			verification_token: payload.verification_token,
+		};
+	}
+
+	if ("type" in payload && typeof payload.type === "string") {
+		if (!EVENT_TYPES.includes(payload.type as NotionWebhookEvent["type"])) {
+			core.warning(`Ignoring unsupported webhook event: ${payload.type}`);
+			return null;
+		}
+
+		const event = payload as NotionWebhookEvent;
+		// Routing needs the ID of every entity the event is about
+		const { entity, entities } = payload as Partial<NotionWebhookEventBase>;
+		if (
+			typeof entity?.id !== "string" ||
+			!(entities ?? []).every((other) => typeof other?.id === "string")
+		) {
+			core.error(`Invalid webhook event: ${event.type} has no entity ID`);
+			return null;
+		}
+
+		return event;
+	}
+
+	const pageId = extractPageId(payload as NotionWebhookPayload);
+	if (!pageId) {
+		return null;
+	}
+
+	const legacyPayload = payload as Partial<NotionWebhookPayload>;
+	return {
+		type: "page.content_updated",
+		timestamp: legacyPayload.timestamp ?? legacyPayload.event_ts ?? "",
+		entity: { id: pageId, type: "page" },
+	};
+}
+
+/**
+ * Reads every Notion event in a payload. Besides a single event, relays that
+ * collect bursts of events may send an array of them, `{ "events": [...] }`
+ * or `{ "page_ids": [...] }`.
+ */
+export function parseWebhookEvents(payload: unknown): NotionWebhookEvent[] {
+	if (Array.isArray(payload)) {
+		return payload.flatMap((item) => parseWebhookEvents(item));
+	}
+
+	if (payload && typeof payload === "object") {
+		if ("events" in payload && Array.isArray(payload.events)) {
+			return parseWebhookEvents(payload.events);
+		}
+
+		if ("page_ids" in payload && Array.isArray(payload.page_ids)) {
+			return parseWebhookEvents(
+				payload.page_ids.map((pageId) => ({ page_id: pageId })),
+			);
+		}
+	}
+
+	const event = parseWebhookEvent(payload);
+	return event ? [event] : [];
+}
+
+/**
+ * Routes a burst of events to one action per entity. Events are applied in
+ * the order they happened, so the latest wins: a page edited and then deleted
+ * is only deleted. A move stays a move when the page is edited afterwards,
+ * since moving re-syncs the page anyway.
+ */
+export function mergeWebhookEvents(
+	events: NotionWebhookEvent[],
+): WebhookAction[] {
+	const eventTime = (event: NotionWebhookEvent) =>
+		("timestamp" in event && Date.parse(event.timestamp)) || 0;
+	const ordered = [...events].sort((a, b) => eventTime(a) - eventTime(b));
+
+	const actions = new Map<string, WebhookAction>();
+	for (const action of ordered.flatMap(routeWebhookEvent)) {
+		const key =
+			action.type === "verify"
+				? `verify:${action.verificationToken}`
+				: normalizeEntityId(getActionTargetId(action));
+		const previous = actions.get(key);
+
+		if (previous?.type === "move-page" && action.type === "sync-page") {
+			continue;
+		}
+
+		// Re-inserting keeps the map in the order of each entity's last event
+		actions.delete(key);
+		actions.set(key, action);
+	}
+
+	return [...actions.values()];
+}
+
+/**
+ * The page or database an action applies to.
+ */
+export function getActionTargetId(
+	action: Exclude<WebhookAction, { type: "verify" }>,
+): string {
+	return action.type === "sync-database" ? action.databaseId : action.pageId;
+}
+
+function normalizeEntityId(id: string): string {
+	return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Maps an event to the sync actions it calls for, one per affected entity.
+ */
+export function routeWebhookEvent(event: NotionWebhookEvent): WebhookAction[] {
+	if (event.type === "verification") {
+		return [{ type: "verify", verificationToken: event.verification_token }];
+	}
+
+	const entities = event.entities?.length ? event.entities : [event.entity];
+	const ids = [...new Set(entities.map((entity) => entity.id))];
+
+	switch (event.type) {
+		case "page.content_updated":
+		case "page.created":
+		case "page.undeleted":
+		case "page.properties_updated":
+			return ids.map((pageId) => ({ type: "sync-page", pageId }));
+		case "page.moved": {
+			// Only pages and databases can hold a synced page
+			const parent = event.data?.parent;
+			const parentId =
+				parent && ["page", "database"].includes(parent.type)
+					? parent.id
+					: undefined;
+			return ids.map((pageId) => ({ type: "move-page", pageId, parentId }));
+		}
+		case "page.deleted":
+		case "database.deleted":
+			return ids.map((pageId) => ({ type: "delete-page", pageId }));
+		case "database.created":
+		case "database.content_updated":
+		case "database.schema_updated":
+		case "database.moved":
+		case "database.undeleted":
+			return ids.map((databaseId) => ({ type: "sync-database", databaseId }));
+	}
+}
+
+/**
+ * The raw Notion request as forwarded by the relay that turns Notion webhooks
+ * into `repository_dispatch` events. The body must be forwarded verbatim for
+ * its signature to verify.
+ */
+export interface SignedWebhookRequest {
+	body: string;
+	signature: string | null;
+}
+
+/**
+ * Reads the raw Notion requests from a `repository_dispatch` event, either a
+ * single one in `client_payload.body`/`signature` or a batch collected by the
+ * relay in `client_payload.requests`. Returns an empty list when a request
+ * has no raw body.
+ */
+export function extractSignedRequests(
+	eventPayload: unknown,
+): SignedWebhookRequest[] {
+	const clientPayload =
+		eventPayload &&
+		typeof eventPayload === "object" &&
+		"client_payload" in eventPayload &&
+		eventPayload.client_payload &&
+		typeof eventPayload.client_payload === "object"
+			? eventPayload.client_payload
+			: null;
+
+	const forwarded: unknown[] =
+		clientPayload &&
+		"requests" in clientPayload &&
+		Array.isArray(clientPayload.requests)
+			? clientPayload.requests
+			: [clientPayload];
+
+	const requests: SignedWebhookRequest[] = [];
+	for (const request of forwarded) {
+		if (
+			!request ||
+			typeof request !== "object" ||
+			!("body" in request) ||
+			typeof request.body !== "string"
+		) {
+			core.error("Webhook event has no raw Notion body in client_payload.body");
+			return [];
+		}
+
+		requests.push({
+			body: request.body,
+			signature:
+				"signature" in request && typeof request.signature === "string"
+					? request.signature
+					: null,
+		});
+	}
+
+	return requests;
+}
+
+export function verifyWebhookSignature(
+	request: SignedWebhookRequest,
+	verificationToken: string,
+) {
+	if (!request.signature) {
+		core.error("Webhook signature missing");
+		return false;
+	}
+
+	// Notion signs the raw body: X-Notion-Signature: sha256=<hex HMAC>
+	const expected = `sha256=${createHmac("sha256", verificationToken)
+		.update(request.body)
+		.digest("hex")}`;
+
+	const expectedBuffer = Buffer.from(expected);
+	const receivedBuffer = Buffer.from(request.signature.trim());
+
+	// timingSafeEqual throws on length mismatch, which would leak nothing useful
+	if (
+		expectedBuffer.length !== receivedBuffer.length ||
+		!timingSafeEqual(expectedBuffer, receivedBuffer)
+	) {
+		core.error("Webhook signature does not match payload");
+		return false;
+	}
+
+	return true;
+}
+
+export function isWebhookFresh(
+	payload: { timestamp?: string; event_ts?: string },
+	maxAgeSeconds: number,
+	now = Date.now(),
+) {
+	const sentAt = Date.parse(payload.timestamp || payload.event_ts || "");
+
+	if (Number.isNaN(sentAt)) {
+		core.error("Webhook payload has no valid timestamp");
+		return false;
+	}
+
+	// Allow a little clock skew for events stamped slightly in the future
+	const ageSeconds = (now - sentAt) / 1000;
+	if (ageSeconds > maxAgeSeconds || ageSeconds < -60) {
+		core.error(
+			`Webhook payload is ${Math.round(ageSeconds)}s old, maximum is ${maxAgeSeconds}s`,
+		);
+		return false;
+	}
+
+	return true;
+}
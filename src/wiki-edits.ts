@@ -0,0 +1,241 @@
+import { blockKey, type MarkdownBlock } from "./markdown-parser";
+
+/**
+ * A top-level part of a synced page, with the Markdown blocks its rendering
+ * parses back into.
+ */
+export interface RenderedBlock {
+	/** Notion block ID, unset for parts that aren't blocks, like the title */
+	blockId?: string;
+	/** Names the part in conflict messages, e.g. `the page title` */
+	description: string;
+	/**
+	 * Whether the block can be deleted and written again from its Markdown
+	 * without losing anything the wiki page doesn't show.
+	 */
+	writable: boolean;
+	rendered: MarkdownBlock[];
+}
+
+export interface BlockUpdate {
+	blockId: string;
+	/** New content of the block, of the same type and with the same children */
+	block: MarkdownBlock;
+}
+
+export interface BlockInsertion {
+	/** Block the new blocks go after, the end of the page when unset */
+	afterBlockId?: string;
+	blocks: MarkdownBlock[];
+}
+
+/**
+ * The Notion changes that carry a wiki edit over, or why it can't be.
+ */
+export type WikiEditPlan =
+	| {
+			updates: BlockUpdate[];
+			deleteBlockIds: string[];
+			insertions: BlockInsertion[];
+	  }
+	| { conflict: string };
+
+/**
+ * Lines the blocks of the edited wiki page up with the page's current Notion
+ * blocks. Changed blocks are updated in place where they kept their type,
+ * others are deleted and the new ones inserted after the block they follow,
+ * so blocks the wiki can't represent stay untouched in Notion.
+ */
+export function planWikiEdit(
+	current: RenderedBlock[],
+	edited: MarkdownBlock[],
+): WikiEditPlan {
+	const currentKeys = current.flatMap((part, partIndex) =>
+		part.rendered.map((block) => ({ key: blockKey(block), partIndex })),
+	);
+	const matches = matchSequences(
+		currentKeys.map(({ key }) => key),
+		edited.map(blockKey),
+	);
+
+	// Edited block indexes each part lines up with
+	const matchedIndexes = current.map((): number[] => []);
+	for (const [currentIndex, editedIndex] of matches) {
+		matchedIndexes[currentKeys[currentIndex].partIndex].push(editedIndex);
+	}
+
+	for (const [partIndex, part] of current.entries()) {
+		const indexes = matchedIndexes[partIndex];
+		// Blocks of one part have to stay together, without new ones between them
+		const matched =
+			indexes.length === part.rendered.length &&
+			(indexes.length === 0 ||
+				indexes[indexes.length - 1] - indexes[0] === indexes.length - 1);
+		if (!matched && (!part.writable || !part.blockId)) {
+			return {
+				conflict: `the wiki edit changes ${part.description}, which can't be written back to Notion`,
+			};
+		}
+	}
+
+	const updates: BlockUpdate[] = [];
+	const deleteBlockIds: string[] = [];
+	const insertions: BlockInsertion[] = [];
+	let anchor: string | undefined;
+	let nextEdited = 0;
+	let pending: RenderedBlock[] = [];
+
+	// Pairs the changed parts between two unchanged ones with the edited
+	// blocks between them, updating blocks of the same shape
+	const closeGap = (editedEnd: number): string | undefined => {
+		const added = edited.slice(nextEdited, editedEnd);
+		let paired = 0;
+		while (
+			paired < pending.length &&
+			paired < added.length &&
+			sameShape(pending[paired].rendered[0], added[paired])
+		) {
+			updates.push({
+				blockId: pending[paired].blockId as string,
+				block: added[paired],
+			});
+			paired++;
+		}
+
+		deleteBlockIds.push(
+			...pending.slice(paired).map((part) => part.blockId as string),
+		);
+
+		const inserted = added.slice(paired);
+		const unsupported = inserted.find((block) => block.type === "unsupported");
+		if (unsupported) {
+			return `the wiki edit adds Markdown that can't be written to Notion: ${unsupported.source.split("\n")[0]}`;
+		}
+		if (inserted.length > 0) {
+			insertions.push({
+				afterBlockId: paired > 0 ? pending[paired - 1].blockId : anchor,
+				blocks: inserted,
+			});
+		}
+
+		pending = [];
+		nextEdited = editedEnd;
+		return undefined;
+	};
+
+	for (const [partIndex, part] of current.entries()) {
+		const indexes = matchedIndexes[partIndex];
+		if (part.rendered.length === 0) {
+			// Not shown on the wiki, so anything can go after it
+			anchor = part.blockId ?? anchor;
+			continue;
+		}
+
+		if (indexes.length < part.rendered.length) {
+			pending.push(part);
+			continue;
+		}
+
+		const conflict = closeGap(indexes[0]);
+		if (conflict) {
+			return { conflict };
+		}
+		nextEdited = indexes[indexes.length - 1] + 1;
+		anchor = part.blockId ?? anchor;
+	}
+
+	const conflict = closeGap(edited.length);
+	if (conflict) {
+		return { conflict };
+	}
+
+	// Notion only inserts after a block, so content above the first block
+	// goes into that block, and the block's own content after it
+	const prepend = insertions.find((insertion) => !insertion.afterBlockId);
+	const first = current.find(
+		(part) => part.blockId && !deleteBlockIds.includes(part.blockId),
+	);
+	if (!prepend || !first?.blockId) {
+		return { updates, deleteBlockIds, insertions };
+	}
+
+	const firstUpdate = updates.find(
+		(update) => update.blockId === first.blockId,
+	);
+	const firstBlock = firstUpdate?.block ?? first.rendered[0];
+	if (
+		!first.writable ||
+		first.rendered.length !== 1 ||
+		!sameShape(firstBlock, prepend.blocks[0])
+	) {
+		return {
+			conflict: `the wiki edit adds content above ${first.description}, which can't be moved in Notion`,
+		};
+	}
+
+	const following = insertions.find(
+		(insertion) => insertion.afterBlockId === first.blockId,
+	);
+	return {
+		updates: [
+			{ blockId: first.blockId, block: prepend.blocks[0] },
+			...updates.filter((update) => update !== firstUpdate),
+		],
+		deleteBlockIds,
+		insertions: [
+			{
+				afterBlockId: first.blockId,
+				blocks: [
+					...prepend.blocks.slice(1),
+					firstBlock,
+					...(following?.blocks ?? []),
+				],
+			},
+			...insertions.filter(
+				(insertion) => insertion !== prepend && insertion !== following,
+			),
+		],
+	};
+}
+
+function sameShape(current: MarkdownBlock, edited: MarkdownBlock): boolean {
+	return (
+		current.type === edited.type &&
+		current.type !== "unsupported" &&
+		current.children.map(blockKey).join() ===
+			edited.children.map(blockKey).join()
+	);
+}
+
+/**
+ * Index pairs of the longest common subsequence of the two key lists.
+ */
+function matchSequences(a: string[], b: string[]): [number, number][] {
+	const lengths = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0),
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				a[i] === b[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const pairs: [number, number][] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			pairs.push([i, j]);
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return pairs;
+}
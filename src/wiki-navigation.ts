@@ -0,0 +1,80 @@
+import { escapeMarkdown } from "./renderer";
+import type { ManifestEntry, SyncManifest } from "./sync-manifest";
+
+export const SIDEBAR_PATH = "_Sidebar.md";
+export const FOOTER_PATH = "_Footer.md";
+export const HOME_PATH = "Home.md";
+
+/**
+ * Builds a nested outline of every synced page that mirrors the Notion
+ * hierarchy. Pages nobody links to as a child become top-level entries, and
+ * archived pages are listed last.
+ */
+export function buildSidebar(manifest: SyncManifest): string {
+	const entries = manifest.all();
+	const entriesById = new Map(entries.map((entry) => [entry.pageId, entry]));
+	const childIds = new Set(entries.flatMap((entry) => entry.childPageIds));
+
+	const topLevel = entries
+		.filter((entry) => !childIds.has(entry.pageId))
+		.sort((a, b) => a.title.localeCompare(b.title));
+
+	const lines: string[] = [];
+	const visited = new Set<string>();
+
+	const addEntry = (entry: ManifestEntry, depth: number) => {
+		// Pages that mention each other would otherwise nest forever
+		if (visited.has(entry.pageId)) {
+			return;
+		}
+		visited.add(entry.pageId);
+
+		lines.push(
+			`${"  ".repeat(depth)}- [${escapeMarkdown(entry.title)}](${entry.wikiPageName})`,
+		);
+
+		// Children keep the order they have in Notion
+		for (const childId of entry.childPageIds) {
+			const child = entriesById.get(childId);
+			if (child) {
+				addEntry(child, depth + 1);
+			}
+		}
+	};
+
+	for (const entry of topLevel) {
+		addEntry(entry, 0);
+	}
+
+	const archivedPages = manifest
+		.getArchivedPages()
+		.sort((a, b) => a.title.localeCompare(b.title));
+	if (archivedPages.length > 0) {
+		lines.push("- Archived");
+		for (const archivedPage of archivedPages) {
+			lines.push(
+				`  - [${escapeMarkdown(archivedPage.title)}](${archivedPage.wikiPageName})`,
+			);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Whether the page sits at the top of the synced hierarchy.
+ */
+export function isTopLevelPage(manifest: SyncManifest, pageId: string) {
+	return !manifest.all().some((entry) => entry.childPageIds.includes(pageId));
+}
+
+export function buildFooter(syncedAt: Date, runId?: string, runUrl?: string) {
+	const timestamp = `${syncedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+	if (!runId) {
+		return `_Last synced from Notion at ${timestamp}_\n`;
+	}
+
+	const run = runUrl ? `[run #${runId}](${runUrl})` : `run #${runId}`;
+	return `_Last synced from Notion at ${timestamp} (${run})_\n`;
+}
@@ -0,0 +1,272 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as core from "@actions/core";
+import { RequestScheduler } from "./request-scheduler";
+
+const execFileAsync = promisify(execFile);
+
+export interface WikiRepositoryOptions {
+	remoteUrl: string;
+	token?: string;
+	branch?: string;
+	/** Start `branch` when the remote doesn't have it yet */
+	createBranch?: boolean;
+	/** Branch a new `branch` starts from, the remote's default branch when unset */
+	baseBranch?: string;
+	/** Directory of the repository that file paths are relative to */
+	directory?: string;
+	authorName?: string;
+	authorEmail?: string;
+	/** Retries clones and pushes that fail for transient network reasons */
+	scheduler?: RequestScheduler;
+}
+
+export interface WikiChange {
+	status: "added" | "modified" | "deleted";
+	path: string;
+}
+
+/**
+ * Raised when the push was rejected because the wiki moved on since the
+ * clone, typically because another sync run pushed first.
+ */
+export class PushRejectedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PushRejectedError";
+	}
+}
+
+/**
+ * A local clone of the wiki's git repository. GitHub wikis aren't exposed
+ * through the REST contents API, so pages are written to a working tree and
+ * pushed back as a single commit. With `directory` set, the same works for a
+ * docs folder of a regular repository.
+ */
+export class WikiRepository {
+	private options: WikiRepositoryOptions;
+	private workingDirectory?: string;
+	private branch?: string;
+	private scheduler: RequestScheduler;
+
+	constructor(options: WikiRepositoryOptions) {
+		this.options = options;
+		this.scheduler = options.scheduler ?? new RequestScheduler();
+
+		if (options.token) {
+			core.setSecret(options.token);
+			core.setSecret(this.encodeCredentials(options.token));
+		}
+	}
+
+	async clone(): Promise<void> {
+		const baseDirectory = process.env.RUNNER_TEMP || os.tmpdir();
+		this.workingDirectory = await fs.mkdtemp(
+			path.join(baseDirectory, "notion-wiki-"),
+		);
+
+		let startBranch = false;
+		try {
+			const workingDirectory = this.workingDirectory;
+			await this.scheduler.run(async () => {
+				// A failed attempt can leave a partial clone behind
+				await fs.rm(workingDirectory, { recursive: true, force: true });
+				await fs.mkdir(workingDirectory);
+
+				const { branch, createBranch, baseBranch } = this.options;
+				startBranch =
+					!!branch && !!createBranch && !(await this.remoteHasBranch(branch));
+				const cloneBranch = startBranch ? baseBranch : createBranch && branch;
+				const branchArgs = cloneBranch ? ["--branch", cloneBranch] : [];
+				await this.git(
+					"clone",
+					"--depth",
+					"1",
+					...branchArgs,
+					this.options.remoteUrl,
+					workingDirectory,
+				);
+			}, "Cloning the wiki");
+		} catch (error) {
+			throw new Error(
+				this.options.directory
+					? `Failed to clone repository: ${error}`
+					: `Failed to clone wiki repository. Make sure the wiki is enabled and has at least one page: ${error}`,
+			);
+		}
+
+		if (startBranch && this.options.branch) {
+			await this.git("checkout", "--quiet", "-b", this.options.branch);
+			core.info(`Starting new branch ${this.options.branch}`);
+		}
+
+		this.branch =
+			this.options.branch ||
+			(await this.git("symbolic-ref", "--short", "HEAD")).trim() ||
+			"master";
+		core.info(`Cloned wiki repository (branch: ${this.branch})`);
+	}
+
+	private async remoteHasBranch(branch: string): Promise<boolean> {
+		const output = await this.git(
+			"ls-remote",
+			"--heads",
+			this.options.remoteUrl,
+			branch,
+		);
+		return output.trim().length > 0;
+	}
+
+	async readFile(filePath: string): Promise<string | null> {
+		try {
+			return await fs.readFile(this.resolvePath(filePath), "utf8");
+		} catch (_error) {
+			return null;
+		}
+	}
+
+	async fileExists(filePath: string): Promise<boolean> {
+		try {
+			await fs.access(this.resolvePath(filePath));
+			return true;
+		} catch (_error) {
+			return false;
+		}
+	}
+
+	async writeFile(filePath: string, content: string | Buffer): Promise<void> {
+		const absolutePath = this.resolvePath(filePath);
+		await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+		await fs.writeFile(absolutePath, content);
+	}
+
+	async deleteFile(filePath: string): Promise<void> {
+		await fs.rm(this.resolvePath(filePath), { force: true });
+	}
+
+	/**
+	 * Stages everything written since the clone and lists what changed.
+	 */
+	async getChanges(): Promise<WikiChange[]> {
+		await this.git("add", "--all");
+		const output = await this.git(
+			"diff",
+			"--cached",
+			"--name-status",
+			"--no-renames",
+			...this.relativeArgs(),
+		);
+
+		return output
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => {
+				const [status, filePath] = line.split("\t");
+				return {
+					status:
+						status === "A" ? "added" : status === "D" ? "deleted" : "modified",
+					path: filePath,
+				};
+			});
+	}
+
+	/**
+	 * Unified diff of a file staged by `getChanges` against the cloned wiki.
+	 */
+	async getDiff(filePath: string): Promise<string> {
+		return this.git(
+			"diff",
+			"--cached",
+			"--no-color",
+			...this.relativeArgs(),
+			"--",
+			this.resolvePath(filePath),
+		);
+	}
+
+	/**
+	 * Commits all pending changes and pushes them. Returns false when there was
+	 * nothing to commit.
+	 */
+	async commitAndPush(message: string): Promise<boolean> {
+		const changes = await this.getChanges();
+		if (changes.length === 0) {
+			core.info("Wiki is already up to date, nothing to commit");
+			return false;
+		}
+
+		await this.git(
+			"-c",
+			`user.name=${this.options.authorName || "github-actions[bot]"}`,
+			"-c",
+			`user.email=${this.options.authorEmail || "41898282+github-actions[bot]@users.noreply.github.com"}`,
+			"commit",
+			"--quiet",
+			"--message",
+			message,
+		);
+		try {
+			await this.scheduler.run(
+				() => this.git("push", "origin", `HEAD:refs/heads/${this.branch}`),
+				"Pushing to the wiki",
+			);
+		} catch (error) {
+			const stderr = (error as { stderr?: string }).stderr ?? "";
+			if (/non-fast-forward|\[rejected\]|fetch first/.test(stderr)) {
+				throw new PushRejectedError(
+					`Wiki push was rejected because the wiki changed since it was cloned: ${stderr.trim()}`,
+				);
+			}
+			throw error;
+		}
+
+		core.info(`Pushed ${changes.length} wiki change(s)`);
+		return true;
+	}
+
+	private resolvePath(filePath: string): string {
+		if (!this.workingDirectory) {
+			throw new Error("Wiki repository has not been cloned");
+		}
+
+		const root = path.resolve(
+			this.workingDirectory,
+			this.options.directory ?? "",
+		);
+		const absolutePath = path.resolve(root, filePath);
+		if (!absolutePath.startsWith(`${root}${path.sep}`)) {
+			throw new Error(`Refusing to write outside the wiki: ${filePath}`);
+		}
+
+		return absolutePath;
+	}
+
+	/** Limits diffs to `directory` and lists paths relative to it */
+	private relativeArgs(): string[] {
+		return this.options.directory
+			? [`--relative=${this.options.directory}`]
+			: [];
+	}
+
+	private encodeCredentials(token: string): string {
+		return Buffer.from(`x-access-token:${token}`).toString("base64");
+	}
+
+	private async git(...args: string[]): Promise<string> {
+		const authArgs = this.options.token
+			? [
+					"-c",
+					`http.extraheader=AUTHORIZATION: basic ${this.encodeCredentials(this.options.token)}`,
+				]
+			: [];
+
+		const { stdout } = await execFileAsync("git", [...authArgs, ...args], {
+			cwd: this.workingDirectory,
+			maxBuffer: 64 * 1024 * 1024,
+		});
+		return stdout;
+	}
+}